@@ -0,0 +1,46 @@
+// Minimal WebSocket relay for Solar Critters multiplayer (?transport=ws&relay=ws://host:port).
+// Endpoints register an id, then every frame with a `to` field is forwarded to that id.
+// Usage: npm run relay [-- --port 8787]
+import { WebSocketServer } from 'ws'
+
+const portArg = process.argv.indexOf('--port')
+const port = Number(portArg >= 0 ? process.argv[portArg + 1] : process.env.PORT || 8787)
+const clients = new Map() // id -> socket
+
+const wss = new WebSocketServer({ port })
+
+wss.on('connection', socket => {
+  let id = null
+  const send = (ws, frame) => { if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(frame)) }
+
+  socket.on('message', raw => {
+    let frame
+    try { frame = JSON.parse(String(raw)) } catch { return }
+    if (!frame || typeof frame.type !== 'string') return
+
+    if (frame.type === 'register') {
+      if (id || typeof frame.id !== 'string') return
+      if (clients.has(frame.id)) return send(socket, { type: 'taken', id: frame.id })
+      id = frame.id
+      clients.set(id, socket)
+      return send(socket, { type: 'registered', id })
+    }
+    if (!id || typeof frame.to !== 'string') return
+
+    const target = clients.get(frame.to)
+    if (!target) {
+      if (frame.type === 'connect') send(socket, { type: 'unavailable', to: frame.to, cid: frame.cid })
+      return
+    }
+    // Never trust the sender's claimed id
+    send(target, { ...frame, from: id })
+  })
+
+  socket.on('close', () => {
+    if (!id || clients.get(id) !== socket) return
+    clients.delete(id)
+    for (const other of clients.values()) send(other, { type: 'gone', from: id })
+  })
+})
+
+console.log(`Solar Critters relay listening on ws://localhost:${port}`)
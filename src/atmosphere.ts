@@ -0,0 +1,162 @@
+import * as THREE from 'three'
+
+// ---------- Atmospheres ----------
+// Sunlight scattered through each planet's air, worked out per pixel: Rayleigh scattering gives the
+// sky its color, Mie scattering the haze around the sun. Light reaching the air near the terminator
+// has come a long way through it and lost most of that color, so the twilight band glows in what's
+// left (reddish, for a blue sky) and the night side stays dark. Planet surfaces get a matching
+// terminator: their ambient light fades on the night side.
+export const atmosphereHeight = 0.2 // shell thickness, as a fraction of the planet's radius
+
+// Where the sun is, shared by every planet's shaders and updated once a frame
+export interface SkyLight {
+  sunPosition: { value: THREE.Vector3 } // world space
+  sunView: { value: THREE.Vector3 } // view space
+  sunColor: { value: THREE.Color }
+}
+
+export function createSkyLight(): SkyLight {
+  return {
+    sunPosition: { value: new THREE.Vector3() },
+    sunView: { value: new THREE.Vector3() },
+    sunColor: { value: new THREE.Color(0xffffff) },
+  }
+}
+
+export function updateSkyLight(light: SkyLight, sun: THREE.Vector3, camera: THREE.Camera) {
+  light.sunPosition.value.copy(sun)
+  light.sunView.value.copy(sun).applyMatrix4(camera.matrixWorldInverse)
+}
+
+// `color` is what the air scatters (the daytime sky's color) and `density` how thick it is, 1 for
+// the usual. Draw it on a unit sphere scaled to the top of the atmosphere.
+export function createAtmosphereMaterial(light: SkyLight, radius: number, color: THREE.Color, density: number): THREE.ShaderMaterial {
+  // Brightest channel scatters at a fixed rate, so dark colors still make a sky
+  const scattering = new THREE.Vector3(color.r, color.g, color.b).divideScalar(Math.max(color.r, color.g, color.b, 1e-3))
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      sunPosition: light.sunPosition,
+      sunColor: light.sunColor,
+      planetRadius: { value: radius },
+      atmosphereRadius: { value: radius * (1 + atmosphereHeight) },
+      scattering: { value: scattering.multiplyScalar(0.8 * density) },
+      mie: { value: 0.05 * density },
+    },
+    vertexShader: atmosphereVertex,
+    fragmentShader: atmosphereFragment,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+    side: THREE.BackSide,
+  })
+}
+
+// From outside, march from the front of the shell so the air over the planet's face shows; from
+// inside (down among the critters) the near side is behind the camera, so march to the far side
+export function setAtmosphereView(material: THREE.ShaderMaterial, inside: boolean) {
+  material.side = inside ? THREE.BackSide : THREE.FrontSide
+}
+
+const atmosphereVertex = /* glsl */ `
+varying vec3 vWorldPosition;
+varying vec3 vCenter;
+
+void main() {
+  vec4 world = modelMatrix * vec4(position, 1.0);
+  vWorldPosition = world.xyz;
+  vCenter = (modelMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+  gl_Position = projectionMatrix * viewMatrix * world;
+}
+`
+
+const atmosphereFragment = /* glsl */ `
+uniform vec3 sunPosition;
+uniform vec3 sunColor;
+uniform float planetRadius;
+uniform float atmosphereRadius;
+uniform vec3 scattering; // Rayleigh, per shell thickness at ground level
+uniform float mie;
+varying vec3 vWorldPosition;
+varying vec3 vCenter;
+
+#define VIEW_SAMPLES 12
+#define LIGHT_SAMPLES 4
+const float PI = 3.14159265;
+const float rayleighHeight = 0.25; // scale heights, as fractions of the shell
+const float mieHeight = 0.1;
+const float g = 0.76; // Mie scattering favours straight ahead this much
+const float sunIntensity = 20.0;
+
+// Distances along the ray to where it enters and leaves the sphere (enter > leave for a miss)
+vec2 hitSphere(vec3 origin, vec3 dir, float radius) {
+  vec3 oc = origin - vCenter;
+  float b = dot(oc, dir);
+  float h = b * b - dot(oc, oc) + radius * radius;
+  if (h < 0.0) return vec2(1e9, -1e9);
+  h = sqrt(h);
+  return vec2(-b - h, -b + h);
+}
+
+// Rayleigh and Mie density at a point, 1 at sea level
+vec2 density(vec3 p) {
+  float height = max(length(p - vCenter) - planetRadius, 0.0) / (atmosphereRadius - planetRadius);
+  return exp(-height / vec2(rayleighHeight, mieHeight));
+}
+
+void main() {
+  float thickness = atmosphereRadius - planetRadius;
+  vec3 dir = normalize(vWorldPosition - cameraPosition);
+  vec2 air = hitSphere(cameraPosition, dir, atmosphereRadius);
+  float start = max(air.x, 0.0);
+  float end = air.y;
+  vec2 ground = hitSphere(cameraPosition, dir, planetRadius);
+  if (ground.x > 0.0) end = min(end, ground.x);
+  if (end <= start) discard;
+
+  // Sum the light scattered toward the camera at each step, dimmed by the air it crossed on the way
+  // in from the sun and on the way out to the camera
+  float stepLength = (end - start) / float(VIEW_SAMPLES);
+  vec2 depth = vec2(0.0);
+  vec3 rayleighSum = vec3(0.0);
+  vec3 mieSum = vec3(0.0);
+  for (int i = 0; i < VIEW_SAMPLES; i++) {
+    vec3 p = cameraPosition + dir * (start + (float(i) + 0.5) * stepLength);
+    vec2 d = density(p) * stepLength / thickness;
+    depth += d;
+    vec3 toSun = normalize(sunPosition - p);
+    if (hitSphere(p, toSun, planetRadius).x > 0.0) continue; // in the planet's shadow
+    float lightStep = hitSphere(p, toSun, atmosphereRadius).y / float(LIGHT_SAMPLES);
+    vec2 lightDepth = vec2(0.0);
+    for (int j = 0; j < LIGHT_SAMPLES; j++) {
+      lightDepth += density(p + toSun * (float(j) + 0.5) * lightStep) * lightStep / thickness;
+    }
+    vec3 attenuation = exp(-(scattering * (depth.x + lightDepth.x) + mie * 1.1 * (depth.y + lightDepth.y)));
+    rayleighSum += d.x * attenuation;
+    mieSum += d.y * attenuation;
+  }
+
+  float mu = dot(dir, normalize(sunPosition - vCenter));
+  float rayleighPhase = 3.0 / (16.0 * PI) * (1.0 + mu * mu);
+  float miePhase = 3.0 / (8.0 * PI) * (1.0 - g * g) * (1.0 + mu * mu) / ((2.0 + g * g) * pow(1.0 + g * g - 2.0 * g * mu, 1.5));
+  vec3 light = sunIntensity * sunColor * (rayleighSum * scattering * rayleighPhase + mieSum * mie * miePhase);
+  // Soft exposure: stays under 1, so only the brightest limbs and sunsets reach the bloom threshold
+  gl_FragColor = vec4(1.0 - exp(-light), 1.0);
+  #include <colorspace_fragment>
+}
+`
+
+// Dim a surface's ambient light away from the sun, for a terminator the scattering lines up with
+const nightAmbient = 0.25
+
+export function addNightSide(material: THREE.MeshStandardMaterial, light: SkyLight) {
+  material.onBeforeCompile = shader => {
+    shader.uniforms.sunView = light.sunView
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nuniform vec3 sunView;')
+      .replace('#include <lights_fragment_end>', /* glsl */ `#include <lights_fragment_end>
+        float daylight = smoothstep(-0.1, 0.3, dot(normal, normalize(sunView + vViewPosition)));
+        reflectedLight.indirectDiffuse *= mix(${nightAmbient.toFixed(2)}, 1.0, daylight);
+      `)
+  }
+  material.customProgramCacheKey = () => 'night-side'
+}
@@ -0,0 +1,65 @@
+import { createWorld, randomDirection, randomGenome, spawnCritter, stepWorld, type World } from './sim'
+
+// ---------- Tick benchmark ----------
+// Times stepWorld with 100, 1,000 and 10,000 critters on the default system (npm run bench opens
+// this page from the dev server). Results go to the page and the console.
+const crowds = [100, 1000, 10000]
+const tick = 1 / 60 // seconds of simulated time per step, as in the game
+const warmupTicks = 20
+const minTicks = 20
+const maxTicks = 600
+const budgetMs = 4000 // timed per crowd, after warming up
+
+const out = document.getElementById('out') as HTMLPreElement
+
+function report(line: string) {
+  out.textContent += `${line}\n`
+  console.log(line)
+}
+
+// The default system, topped up to `count` critters scattered over every planet's surface
+function crowdedWorld(count: number): World {
+  const world = createWorld({ seed: `bench-${count}` })
+  for (let i = world.critters.length; i < count; i++) {
+    const planet = world.planets[i % world.planets.length]
+    const c = spawnCritter(world, `Bench ${i}`, planet, randomGenome(world.random, world.random()))
+    c.position.copy(planet.position).addScaledVector(randomDirection(world.random), planet.radius + c.surfaceOffset)
+  }
+  return world
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]
+}
+
+async function run() {
+  report('critters   ticks   mean ms   median   p95      ticks/s')
+  for (const count of crowds) {
+    // Let the page paint between crowds
+    await new Promise(resolve => setTimeout(resolve, 50))
+    const world = crowdedWorld(count)
+    for (let i = 0; i < warmupTicks; i++) stepWorld(world, tick)
+
+    const times: number[] = []
+    const start = performance.now()
+    while (times.length < maxTicks && (times.length < minTicks || performance.now() - start < budgetMs)) {
+      const t0 = performance.now()
+      stepWorld(world, tick)
+      world.events.length = 0
+      times.push(performance.now() - t0)
+    }
+    const mean = times.reduce((a, b) => a + b, 0) / times.length
+    times.sort((a, b) => a - b)
+    report([
+      String(count).padEnd(10),
+      String(times.length).padEnd(7),
+      mean.toFixed(2).padEnd(9),
+      percentile(times, 0.5).toFixed(2).padEnd(8),
+      percentile(times, 0.95).toFixed(2).padEnd(8),
+      (1000 / mean).toFixed(0),
+    ].join(' '))
+  }
+  report('done')
+}
+
+run()
@@ -0,0 +1,232 @@
+import * as THREE from 'three'
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js'
+import type { BodyType, Critter } from './sim'
+import { bodyGeometry, groundDepth, layoutFor, legThickness, stance, type Layout } from './rig'
+
+// ---------- Crowd rendering ----------
+// Critters nobody is looking at closely are drawn in one InstancedMesh per body type, with their
+// own color and size. There's no skeleton: the vertex shader bobs bodies, wiggles worms and swings
+// legs through the gait from a few numbers per instance. The followed critter gets its full rig
+// (rig.ts) instead.
+interface CrowdBatch {
+  mesh: THREE.InstancedMesh
+  motion: THREE.InstancedBufferAttribute // per instance: gait phase, walking, grounded, dazed
+  count: number // instances placed this frame
+}
+
+export interface Crowd {
+  root: THREE.Group
+  batches: Map<BodyType, CrowdBatch>
+  time: { value: number } // shader clock, seconds
+}
+
+// What one critter's instance needs from frame to frame
+export interface CrowdMember {
+  color: THREE.Color
+  gaitPhase: number // critter.gaitPhase when last placed
+  walking: number // eased 0 (standing) .. 1 (walking)
+  grounded: number // eased 0 (airborne) .. 1 (on the ground)
+  dazed: number // eased 0 .. 1
+}
+
+const bodyTypes: BodyType[] = ['worm', 'insect', 'biped', 'quadruped']
+const firstCapacity = 64
+
+// Each body plan drawn with typical genes: insects with three pairs of legs, everyone with legs
+// of middling length and ears
+const typicalLegPairs: Record<BodyType, number> = { worm: 0, biped: 1, quadruped: 2, insect: 3 }
+
+export function createCrowd(): Crowd {
+  const root = new THREE.Group()
+  root.name = 'crowd'
+  const crowd: Crowd = { root, batches: new Map(), time: { value: 0 } }
+  for (const bodyType of bodyTypes) {
+    const layout = layoutFor(bodyType, typicalLegPairs[bodyType], 1)
+    const batch = {
+      mesh: makeBatchMesh(crowdGeometry(bodyType, layout), crowdMaterial(crowd, bodyType, layout), firstCapacity),
+      motion: new THREE.InstancedBufferAttribute(new Float32Array(firstCapacity * 4), 4),
+      count: 0,
+    }
+    batch.mesh.geometry.setAttribute('crowdMotion', batch.motion)
+    root.add(batch.mesh)
+    crowd.batches.set(bodyType, batch)
+  }
+  return crowd
+}
+
+export function createCrowdMember(critter: Critter, color: THREE.Color): CrowdMember {
+  const grounded = critter.state === 'grounded' ? 1 : 0
+  return { color, gaitPhase: critter.gaitPhase, walking: 0, grounded, dazed: 0 }
+}
+
+function makeBatchMesh(geometry: THREE.BufferGeometry, material: THREE.Material, capacity: number): THREE.InstancedMesh {
+  const mesh = new THREE.InstancedMesh(geometry, material, capacity)
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage)
+  mesh.count = 0
+  mesh.castShadow = true
+  mesh.receiveShadow = true
+  mesh.frustumCulled = false // instances roam the whole system
+  return mesh
+}
+
+// Body, ears and straight legs down to the ground, merged into one mesh at unit size. Every
+// vertex carries `crowdLeg`: the gait phase of the leg it's on (-1 for the body) and how far down
+// that leg it is, 0 at the hip to 1 at the foot.
+function crowdGeometry(bodyType: BodyType, layout: Layout): THREE.BufferGeometry {
+  const { rise } = stance(layout)
+  const parts: THREE.BufferGeometry[] = []
+  const onBody = (geometry: THREE.BufferGeometry) => {
+    const leg = new Float32Array(geometry.attributes.position.count * 2)
+    for (let i = 0; i < leg.length; i += 2) leg[i] = -1
+    geometry.setAttribute('crowdLeg', new THREE.BufferAttribute(leg, 2))
+    parts.push(geometry)
+  }
+  onBody(bodyGeometry(layout, rise))
+  for (const side of [-1, 1]) {
+    onBody(new THREE.SphereGeometry(0.35, 12, 10).translate(side * layout.ears.x, layout.ears.y + rise, layout.ears.z))
+  }
+
+  const thickness = legThickness(bodyType)
+  const down = new THREE.Vector3(0, -1, 0)
+  const p = new THREE.Vector3()
+  for (const spec of layout.legs) {
+    const hip = spec.hip.clone().setY(spec.hip.y + rise)
+    const foot = new THREE.Vector3(spec.foot.x, -groundDepth, spec.foot.z)
+    const length = hip.distanceTo(foot)
+    const turn = new THREE.Quaternion().setFromUnitVectors(down, foot.clone().sub(hip).normalize())
+    const limb = new THREE.CylinderGeometry(thickness, thickness * 0.8, length, 6).translate(0, -length / 2, 0)
+    const paw = new THREE.SphereGeometry(thickness * 1.3, 8, 6).translate(0, -length, 0)
+    for (const geometry of [limb, paw]) {
+      geometry.applyQuaternion(turn).translate(hip.x, hip.y, hip.z)
+      const positions = geometry.attributes.position
+      const leg = new Float32Array(positions.count * 2)
+      for (let i = 0; i < positions.count; i++) {
+        leg[i * 2] = spec.phase
+        leg[i * 2 + 1] = THREE.MathUtils.clamp(p.fromBufferAttribute(positions, i).distanceTo(hip) / length, 0, 1)
+      }
+      geometry.setAttribute('crowdLeg', new THREE.BufferAttribute(leg, 2))
+      parts.push(geometry)
+    }
+  }
+  const merged = mergeGeometries(parts)
+  parts.forEach(g => g.dispose())
+  return merged
+}
+
+// The critters' usual material, with the body plan's gait worked into its vertex shader
+function crowdMaterial(crowd: Crowd, bodyType: BodyType, layout: Layout): THREE.Material {
+  const { legLength } = stance(layout)
+  const material = new THREE.MeshStandardMaterial({ roughness: 0.25, metalness: 0.05 })
+  const defines = [
+    `#define CROWD_WORM ${layout.worm ? 1 : 0}`,
+    `#define CROWD_SWING ${layout.swing.toFixed(3)}`,
+    `#define CROWD_STRIDE ${(0.3 * legLength).toFixed(3)}`, // how far feet reach ahead and behind the hip
+    `#define CROWD_STEP ${(0.25 * legLength).toFixed(3)}`, // how high they lift, as in rig.ts
+    `#define CROWD_TUCK ${(0.3 * legLength).toFixed(3)}`, // how far they draw up in flight
+  ].join('\n')
+  material.onBeforeCompile = shader => {
+    shader.uniforms.crowdTime = crowd.time
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${defines}\n${crowdHeader}`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>\n${crowdMotion}`)
+  }
+  material.customProgramCacheKey = () => `crowd-${bodyType}`
+  return material
+}
+
+const crowdHeader = /* glsl */ `
+attribute vec2 crowdLeg;
+attribute vec4 crowdMotion;
+uniform float crowdTime;
+`
+
+// Mirrors the rig's clips: breathing when still, a bob at each footfall when walking, worms
+// waving along their length, and feet stepping ahead in the air then sweeping back on the ground
+const crowdMotion = /* glsl */ `
+{
+  float gait = crowdMotion.x;
+  float walking = crowdMotion.y * crowdMotion.z;
+  float grounded = crowdMotion.z;
+  float along = crowdLeg.x < 0.0 ? 0.0 : crowdLeg.y;
+  float bob = mix(0.03 * sin(crowdTime * 2.6 + gait), 0.03 * (1.0 - cos(2.0 * gait)), walking) * grounded;
+  transformed.y += bob * (1.0 - along);
+  transformed.x += crowdMotion.w * 0.12 * sin(crowdTime * 5.2 + gait) * (position.y + ${groundDepth.toFixed(2)});
+#if CROWD_WORM
+  transformed.x += 0.25 * walking * sin(gait + position.z * 1.8);
+#else
+  if (crowdLeg.x >= 0.0) {
+    float t = fract(gait / 6.2831853 + crowdLeg.x);
+    float swinging = step(t, float(CROWD_SWING));
+    float stride = swinging > 0.5
+      ? mix(-1.0, 1.0, smoothstep(0.0, float(CROWD_SWING), t))
+      : mix(1.0, -1.0, (t - float(CROWD_SWING)) / (1.0 - float(CROWD_SWING)));
+    float lift = swinging * sin(3.14159265 * t / float(CROWD_SWING));
+    transformed.z += float(CROWD_STRIDE) * stride * along * walking;
+    transformed.y += float(CROWD_STEP) * lift * along * walking;
+    transformed.y += float(CROWD_TUCK) * along * (1.0 - grounded);
+    transformed.z += 0.5 * float(CROWD_TUCK) * along * (1.0 - grounded);
+  }
+#endif
+}
+`
+
+// ---------- Placing ----------
+const _matrix = new THREE.Matrix4()
+const _scale = new THREE.Vector3()
+
+// Start a frame: every batch empties and gets refilled by placeInCrowd
+export function beginCrowd(crowd: Crowd, delta: number) {
+  crowd.time.value += delta
+  for (const batch of crowd.batches.values()) batch.count = 0
+}
+
+// Draw a critter in its batch this frame, at the given (interpolated) pose
+export function placeInCrowd(crowd: Crowd, member: CrowdMember, critter: Critter, position: THREE.Vector3, quaternion: THREE.Quaternion, delta: number) {
+  const grounded = critter.state === 'grounded'
+  const gaitRate = delta > 0 ? (critter.gaitPhase - member.gaitPhase) / delta : 0
+  member.gaitPhase = critter.gaitPhase
+  const ease = (from: number, to: number, rate: number) => from + (to - from) * Math.min(1, rate * delta)
+  member.grounded = ease(member.grounded, grounded ? 1 : 0, 8)
+  member.walking = ease(member.walking, grounded && gaitRate > 0 ? 1 : 0, 5)
+  member.dazed = ease(member.dazed, grounded && critter.stunned > 0 ? 1 : 0, 6)
+
+  const batch = crowd.batches.get(critter.bodyType)!
+  if (batch.count === batch.mesh.instanceMatrix.count) grow(crowd, batch)
+  const i = batch.count++
+  batch.mesh.setMatrixAt(i, _matrix.compose(position, quaternion, _scale.setScalar(critter.sizeScale)))
+  batch.mesh.setColorAt(i, member.color)
+  batch.motion.setXYZW(i, critter.gaitPhase, member.walking, member.grounded, member.dazed)
+}
+
+// Done placing: upload what changed
+export function finishCrowd(crowd: Crowd) {
+  for (const batch of crowd.batches.values()) {
+    batch.mesh.count = batch.count
+    if (batch.count === 0) continue
+    batch.mesh.instanceMatrix.needsUpdate = true
+    if (batch.mesh.instanceColor) batch.mesh.instanceColor.needsUpdate = true
+    batch.motion.needsUpdate = true
+  }
+}
+
+// Out of room: swap in a mesh twice the size, keeping the instances placed so far
+function grow(crowd: Crowd, batch: CrowdBatch) {
+  const old = batch.mesh
+  const capacity = old.instanceMatrix.count * 2
+  const geometry = old.geometry.clone()
+  const motion = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 4), 4)
+  motion.array.set(batch.motion.array)
+  geometry.setAttribute('crowdMotion', motion)
+  const mesh = makeBatchMesh(geometry, old.material as THREE.Material, capacity)
+  mesh.instanceMatrix.array.set(old.instanceMatrix.array)
+  if (old.instanceColor) {
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3)
+    mesh.instanceColor.array.set(old.instanceColor.array)
+  }
+  crowd.root.remove(old)
+  crowd.root.add(mesh)
+  old.geometry.dispose()
+  old.dispose()
+  batch.mesh = mesh
+  batch.motion = motion
+}
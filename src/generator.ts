@@ -0,0 +1,101 @@
+import * as THREE from 'three'
+import { hashStringToInt32, mulberry32 } from './sim'
+import type { StarSystem, SystemMoon, SystemPlanet } from './systems'
+
+// ---------- Procedural star systems ----------
+// Every seed decides a whole system: the star, how many planets, their sizes, spacing, gravity,
+// tilts, rings, moons and palette. Same seed, same system, on every machine.
+
+export function sampleStarTemperature(rng: () => number): number {
+  // Sample 2500K..12000K with bias toward ~5500K (sunlike), loosely Boltzmann-like
+  const Tmin = 2500
+  const Tmax = 12000
+  const u = rng()
+  const v = rng()
+  // Log-bias mixture for variety
+  const bias = Math.pow(u, 0.6) * 0.6 + Math.pow(v, 2.0) * 0.4
+  return Tmin * Math.pow(Tmax / Tmin, bias)
+}
+
+const syllables = ['ka', 'lo', 'mi', 'ra', 'zu', 've', 'no', 'ti', 'sa', 'pe', 'qua', 'xi', 'bo', 'lu', 'ren', 'dor', 'syl', 'mar']
+const maxOrbitalRadius = 220 // keep the system inside the starfield and the camera's reach
+
+export function generateSystem(seed: string): StarSystem {
+  // Separate stream from the simulation and surface generation, so adding a draw there doesn't reshape systems
+  const rng = mulberry32(hashStringToInt32(`${seed}:system`))
+  const range = (min: number, max: number) => THREE.MathUtils.lerp(min, max, rng())
+  const chance = (p: number) => rng() < p
+
+  // Hotter stars are a little bigger
+  const temperature = Math.round(sampleStarTemperature(rng))
+  const starRadius = THREE.MathUtils.mapLinear(temperature, 2500, 12000, 4.5, 8) * range(0.9, 1.1)
+
+  // Palette: hues walk around the wheel by the golden angle from a random start
+  const baseHue = rng()
+  const saturation = range(0.55, 0.8)
+
+  const planets: SystemPlanet[] = []
+  const names = new Set<string>()
+  const count = 3 + Math.floor(rng() * 5)
+  let prevOrbit = 0
+  let prevReach = starRadius
+  for (let i = 0; i < count; i++) {
+    const radius = range(2.8, 6.5)
+    const ring = radius > 4 && chance(0.3)
+      ? { inner: range(1.4, 1.6), outer: range(2.1, 2.6), tilt: Math.round(range(60, 85)), opacity: 0.85 }
+      : undefined
+    const moons: SystemMoon[] = []
+    const moonCount = Math.floor(rng() * (radius > 4.5 ? 3 : 2))
+    let moonOrbit = radius + range(4, 7)
+    for (let m = 0; m < moonCount; m++) {
+      moons.push({ radius: range(0.6, 1.2), orbitRadius: moonOrbit, speed: range(1, 1.8), tilt: Math.round(range(-30, 30)) })
+      moonOrbit += range(3, 5)
+    }
+    // How far the planet's ring and moons reach, so neighbours' orbits stay clear of them
+    const reach = Math.max(radius * (ring ? ring.outer : 1), moons.length ? moons[moons.length - 1].orbitRadius + 1.2 : 0)
+
+    // Roughly geometric spacing (like our own system), pushed out further when needed
+    const orbitalRadius = i === 0
+      ? starRadius + reach + range(18, 28)
+      : Math.max(prevOrbit * range(1.3, 1.55), prevOrbit + prevReach + reach + 6)
+    if (orbitalRadius > maxOrbitalRadius && planets.length >= 2) break
+
+    let name = planetName(rng)
+    for (let n = 2; names.has(name); n++) name = `${planetName(rng)} ${n}`
+    names.add(name)
+
+    planets.push({
+      name,
+      radius: round2(radius),
+      color: '#' + new THREE.Color().setHSL((baseHue + i * 0.618) % 1, saturation, range(0.6, 0.72)).getHexString(),
+      orbitalRadius: round2(orbitalRadius),
+      // Gentler than Kepler's a^-1.5 so outer worlds still visibly move
+      orbitalSpeed: round2(0.25 * Math.pow(orbitalRadius / 40, -0.75) * range(0.9, 1.1)),
+      axialTilt: Math.round(range(0, 30)),
+      rotationSpeed: round2(range(0.25, 0.6)),
+      gravityStrength: round2(radius * range(3.2, 4)),
+      ring,
+      moons,
+      treeDensity: round2(range(0.05, 0.25)),
+      critters: 1 + Math.floor(rng() * 3),
+    })
+    prevOrbit = orbitalRadius
+    prevReach = reach
+  }
+
+  return {
+    name: 'generated',
+    title: `Seed ${seed}`.slice(0, 64),
+    star: { temperature, radius: round2(starRadius) },
+    planets,
+  }
+}
+
+function planetName(rng: () => number): string {
+  const n = 2 + Math.floor(rng() * 2)
+  let name = ''
+  for (let i = 0; i < n; i++) name += syllables[Math.floor(rng() * syllables.length)]
+  return name[0].toUpperCase() + name.slice(1, 20)
+}
+
+const round2 = (x: number) => Math.round(x * 100) / 100
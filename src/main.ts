@@ -5,42 +5,41 @@ import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js'
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js'
 import GUI from 'lil-gui'
-import Peer from 'peerjs'
 import { createNoise3D } from 'simplex-noise'
+import { createTransport, parseTransportConfig, type Connection, type Transport, type TransportError } from './transport'
+import { PROTOCOL_VERSION, answerHello, checkHello, createRateLimiter, emotes, maxChatLength, parseMsg, type CritterSnapshot, type Emote, type GenomeTuple, type Msg, type Vec3Tuple } from './protocol'
+import { decodeWorldHash, encodeWorldHash, loadWorld, parseWorldSave, saveWorld, type WorldSave } from './save'
+import { generateSystem, sampleStarTemperature } from './generator'
+import { createCritterRig, disposeCritterRig, poseCritterRig, type CritterRig } from './rig'
+import { beginCrowd, createCrowd, createCrowdMember, finishCrowd, placeInCrowd, type CrowdMember } from './crowd'
+import { addNightSide, atmosphereHeight, createAtmosphereMaterial, createSkyLight, setAtmosphereView, updateSkyLight } from './atmosphere'
+import { parseStarSystem, presetSystems, systemWorldOptions, type StarSystem } from './systems'
+import { avatarLeapVelocity, createWorld, ensureAvatar, findNearestPlanet, findPlanet, gentleLanding, hashStringToInt32, leapNow, mulberry32, orbitModes, paramRanges, randomDirection, predictTrajectory, randomGenome, releaseAvatar, removeCritter, renameCritter, reseed, resetWorld, sendCritterTo, spawnCritter, stepWorld, surfaceAltitude, surfaceRadius, groundRadius, biomeAt, updateOrbits, maxFruit, maxNameLength, type Biome, type Critter, type Genome, type Moon, type Planet, type SimParams } from './sim'
 
 // ---------- Types ----------
-interface Planet {
-  name: string
-  radius: number
-  color: number
-  orbitalRadius: number
-  orbitalSpeed: number // radians per second
-  axialTilt: number
-  rotationSpeed: number // radians per second
-  gravityStrength: number // relative G for critters
+// Scene objects drawn for the simulation's planets and critters; the state itself lives in sim.ts
+interface PlanetView {
+  planet: Planet
   mesh: THREE.Mesh
   pivot: THREE.Object3D // used for orbit path
+  surfaces: (THREE.BufferGeometry | undefined)[] // surface meshes built so far, per level of detail
+  detail: number // level drawn now (index into surfaceDetail)
+  building: SurfaceBuild | null // a finer level on its way, a little each frame
+  atmosphere: THREE.Mesh<THREE.BufferGeometry, THREE.ShaderMaterial>
+  trees: THREE.InstancedMesh | null // every tree on the planet, as billboards
+  fruit: THREE.Points | null // ripe fruit hanging in the trees
+  fruitSlots: Float32Array // where each tree's fruit hangs, maxFruit per tree
+  fruitShown: Uint8Array // ripe fruit drawn per tree at the last update
 }
 
-interface Critter {
-  name: string
-  body: THREE.SkinnedMesh
-  skeleton: THREE.Skeleton
-  bones: THREE.Bone[]
-  mixer: THREE.AnimationMixer
-  bodyType: 'worm' | 'insect' | 'biped' | 'quadruped'
-  legs: THREE.Group[]
-  state: 'grounded' | 'leaping' | 'space'
-  targetPlanet: Planet | null
-  homePlanet: Planet
-  velocity: THREE.Vector3
-  surfaceOffset: number
-  wanderPhase: number
-  gaitPhase: number
-  sizeScale: number
-  excitement: number
-  socialTarget: Critter | null
-  nextSocialTime: number
+interface CritterView {
+  critter: Critter
+  position: THREE.Vector3 // where it's drawn this frame
+  quaternion: THREE.Quaternion
+  crowd: CrowdMember // drawn in the crowd (see crowd.ts)...
+  rig: CritterRig | null // ...unless followed: skeleton, legs and animation clips (see rig.ts)
+  nameTag: THREE.Sprite | null
+  tagOwner: string | null
 }
 
 // ---------- Scene Setup ----------
@@ -61,7 +60,9 @@ camera.position.set(0, 30, 80)
 
 const controls = new OrbitControls(camera, renderer.domElement)
 controls.enableDamping = true
-controls.minDistance = 10
+const orbitMinDistance = 10
+const critterMinDistance = 2.5 // following a critter, the camera can come down to its level
+controls.minDistance = orbitMinDistance
 controls.maxDistance = 400
 controls.target.set(0, 0, 0)
 
@@ -76,26 +77,15 @@ sunLight.castShadow = true
 sunLight.shadow.mapSize.set(2048, 2048)
 sunLight.shadow.bias = -0.0005
 scene.add(sunLight)
+// Where the sun is for the atmosphere and night-side shaders (see atmosphere.ts)
+const skyLight = createSkyLight()
 
 // ---------- Seeded RNG ----------
-function hashStringToInt32(str: string): number {
-  let h = 2166136261 >>> 0
-  for (let i = 0; i < str.length; i++) {
-    h ^= str.charCodeAt(i)
-    h = Math.imul(h, 16777619)
-  }
-  return h >>> 0
-}
-function mulberry32(seed: number) {
-  return function() {
-    seed |= 0; seed = seed + 0x6D2B79F5 | 0
-    let t = Math.imul(seed ^ seed >>> 15, 1 | seed)
-    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t
-    return ((t ^ t >>> 14) >>> 0) / 4294967296
-  }
-}
-let worldSeed = 'default'
-let seededRandom: () => number = Math.random
+// The simulation draws leaps, moon phases and spawns from its own stream (world.random); world
+// generation here (stars, surfaces, trees, fireflies) uses seededRandom so neither depends on
+// how much the other consumed
+const world = createWorld({ seed: 'default', ...systemWorldOptions(presetSystems[0]) })
+let seededRandom: () => number = mulberry32(hashStringToInt32(world.seed))
 
 // Stars background (Boltzmann-like temperature distribution + blackbody colors)
 function kelvinToRGB(tempK: number): THREE.Color {
@@ -146,17 +136,6 @@ function makeNebulaTexture(size = 512): THREE.CanvasTexture {
   return tex
 }
 
-function sampleStarTemperature(): number {
-  // Sample 2500K..12000K with bias toward ~5500K (sunlike), loosely Boltzmann-like
-  const Tmin = 2500
-  const Tmax = 12000
-  const u = seededRandom()
-  const v = seededRandom()
-  // Log-bias mixture for variety
-  const bias = Math.pow(u, 0.6) * 0.6 + Math.pow(v, 2.0) * 0.4
-  return Tmin * Math.pow(Tmax / Tmin, bias)
-}
-
 const starGeo = new THREE.BufferGeometry()
 const starCount = 15000
 const starPositions = new Float32Array(starCount * 3)
@@ -170,7 +149,7 @@ for (let i = 0; i < starCount; i++) {
   starPositions[i * 3 + 2] = r * Math.sin(phi) * Math.sin(theta)
 
   // Temperature -> blackbody RGB with brightness scaling
-  const T = sampleStarTemperature()
+  const T = sampleStarTemperature(seededRandom)
   const bb = kelvinToRGB(T)
   const brightness = THREE.MathUtils.clamp(Math.pow(T / 6000, 4) * 0.85, 0.25, 2.2)
   bb.multiplyScalar(brightness)
@@ -186,11 +165,11 @@ const stars = new THREE.Points(
 )
 scene.add(stars)
 
-// Sun
-const sunRadius = 6
+// Sun (sized and colored from the system's star in applyStar)
+let sunRadius = world.star.radius
 const sun = new THREE.Mesh(
   new THREE.SphereGeometry(sunRadius, 48, 48),
-  new THREE.MeshBasicMaterial({ color: 0xffe08a })
+  new THREE.MeshBasicMaterial({ color: kelvinToRGB(world.star.temperature) })
 )
 scene.add(sun)
 
@@ -256,22 +235,33 @@ smileMouth.position.set(0, -0.6, 0.02)
 smileMouth.visible = false
 sunglasses.add(smileMouth)
 
-// Raycaster for planet selection
+// Raycaster for planet selection; critters are picked on screen instead (they're tiny)
 const raycaster = new THREE.Raycaster()
 const mouse = new THREE.Vector2()
-let followPlanet: Planet | null = null
+let followPlanet: PlanetView | null = null
+let followCritter: Critter | null = null
 let followOffset: THREE.Vector3 | null = null
-window.addEventListener('pointerdown', (e) => {
+const critterPickRadius = 18 // pixels
+renderer.domElement.addEventListener('pointerdown', (e) => {
   const rect = renderer.domElement.getBoundingClientRect()
   mouse.x = ((e.clientX - rect.left) / rect.width) * 2 - 1
   mouse.y = -(((e.clientY - rect.top) / rect.height) * 2 - 1)
   raycaster.setFromCamera(mouse, camera)
-  const planetMeshes = planets.map(p => p.mesh)
+  const planetMeshes = planetViews.map(p => p.mesh)
   const intersects = raycaster.intersectObjects(planetMeshes, false)
-  if (intersects.length > 0) {
+  const critter = pickCritter(rect, e.clientX, e.clientY, intersects.length > 0 ? intersects[0].distance : Infinity)
+  if (critter) {
+    followPlanet = null
+    followCritter = critter
+    const view = critterViews.get(critter)!
+    controls.target.copy(view.position)
+    followOffset = new THREE.Vector3().subVectors(camera.position, view.position)
+    openInspector(critter)
+  } else if (intersects.length > 0) {
     const picked = intersects[0].object as THREE.Mesh
-    followPlanet = planets.find(p => p.mesh === picked) || null
+    followPlanet = planetViews.find(p => p.mesh === picked) || null
     if (followPlanet) {
+      closeInspector()
       // Smoothly retarget orbit controls to this planet
       const target = new THREE.Vector3(); followPlanet.mesh.getWorldPosition(target)
       controls.target.copy(target)
@@ -281,9 +271,34 @@ window.addEventListener('pointerdown', (e) => {
   }
 })
 
+// The critter drawn closest to the click, unless a planet hit nearer the camera hides it
+function pickCritter(rect: DOMRect, x: number, y: number, hidden: number): Critter | null {
+  let best: Critter | null = null
+  let bestDist = critterPickRadius
+  const p = new THREE.Vector3()
+  for (const view of critterViews.values()) {
+    if (camera.position.distanceTo(view.position) > hidden + 1) continue
+    p.copy(view.position).project(camera)
+    if (p.z > 1) continue // behind the camera
+    const d = Math.hypot(rect.left + (p.x + 1) / 2 * rect.width - x, rect.top + (1 - p.y) / 2 * rect.height - y)
+    if (d < bestDist) { best = view.critter; bestDist = d }
+  }
+  return best
+}
+
+// Where the followed planet or critter is drawn, if following one
+function followTarget(): THREE.Vector3 | null {
+  if (followCritter) {
+    const view = critterViews.get(followCritter)
+    return view ? view.position.clone() : null
+  }
+  if (followPlanet) return followPlanet.mesh.getWorldPosition(new THREE.Vector3())
+  return null
+}
+
 // When user rotates/zooms while following, update offset to keep that new relative framing
 controls.addEventListener('change', () => {
-  if (followPlanet) {
+  if (followPlanet || followCritter) {
     followOffset = new THREE.Vector3().subVectors(camera.position, controls.target)
   }
 })
@@ -324,44 +339,87 @@ function makeTreeTexture(size = 128): THREE.CanvasTexture {
 }
 
 // ---------- Planet System ----------
-const planets: Planet[] = []
-let noise3D = createNoise3D()
+const planetViews: PlanetView[] = []
+let noise3D = createNoise3D(seededRandom)
+
+// Biomes tint the planet's own color, some more than others
+const biomeTints: Record<Biome, { color: THREE.Color; amount: number }> = {
+  ocean: { color: new THREE.Color(0x1d3140), amount: 0.6 }, // the seabed, seen through the water
+  ice: { color: new THREE.Color(0xf2f7ff), amount: 0.85 },
+  desert: { color: new THREE.Color(0xe0c48a), amount: 0.6 },
+  grassland: { color: new THREE.Color(0x8fbf5a), amount: 0.2 },
+  forest: { color: new THREE.Color(0x2f6a35), amount: 0.45 },
+  mountain: { color: new THREE.Color(0x857a70), amount: 0.6 },
+}
 
-function createPlanet(params: Omit<Planet, 'mesh' | 'pivot'>): Planet {
-  const geometry = new THREE.SphereGeometry(params.radius, 64, 64)
+// The planet's ground as a sphere of `segments` around, raised and colored from the sim's terrain
+// so the ground critters walk and forage on matches what's drawn
+function surfaceGeometry(planet: Planet, segments: number): THREE.BufferGeometry {
+  const build = startSurface(planet, -1, segments)
+  continueSurface(build, Infinity)
+  return build.geometry
+}
 
-  // Slight surface variation for visual flair
-  const positions = geometry.attributes.position as THREE.BufferAttribute
-  const temp = new THREE.Vector3()
-  const colors: number[] = []
-  const base = new THREE.Color(params.color)
+// A surface part way through being raised and colored, so the finest levels (tens of thousands of
+// vertices, each sampling the terrain noise) can be spread over several frames
+interface SurfaceBuild {
+  planet: Planet
+  level: number
+  geometry: THREE.BufferGeometry
+  colors: Float32Array
+  hsl: { h: number; s: number; l: number } // the planet's own color
+  next: number // vertex to do next
+}
+
+function startSurface(planet: Planet, level: number, segments: number): SurfaceBuild {
+  const geometry = new THREE.SphereGeometry(planet.radius, segments, segments)
   const hsl = { h: 0, s: 0, l: 0 }
-  base.getHSL(hsl)
-  for (let i = 0; i < positions.count; i++) {
-    temp.fromBufferAttribute(positions, i).normalize()
-    const n = noise3D(temp.x * 1.5, temp.y * 1.5, temp.z * 1.5)
-    const scale = 1 + n * 0.05
-    positions.setXYZ(i, temp.x * params.radius * scale, temp.y * params.radius * scale, temp.z * params.radius * scale)
-    const altitude = (n + 1) * 0.5
-    const c = new THREE.Color().setHSL(
+  new THREE.Color(planet.color).getHSL(hsl)
+  return { planet, level, geometry, colors: new Float32Array(geometry.attributes.position.count * 3), hsl, next: 0 }
+}
+
+const _surfaceUp = new THREE.Vector3()
+const _surfaceColor = new THREE.Color()
+
+// Work on the surface until `deadline` (a performance.now() time); true once it's finished
+function continueSurface(build: SurfaceBuild, deadline: number): boolean {
+  const { planet, geometry, colors, hsl } = build
+  const positions = geometry.attributes.position as THREE.BufferAttribute
+  for (let i = build.next; i < positions.count; i++) {
+    // Checking the clock is cheap next to the noise, but not free
+    if (i % 256 === 0 && i > build.next && performance.now() > deadline) {
+      build.next = i
+      return false
+    }
+    const up = _surfaceUp.fromBufferAttribute(positions, i).normalize()
+    const altitude = surfaceAltitude(world, planet, up)
+    const radius = groundRadius(planet, altitude)
+    positions.setXYZ(i, up.x * radius, up.y * radius, up.z * radius)
+    const c = _surfaceColor.setHSL(
       (hsl.h + THREE.MathUtils.mapLinear(altitude, 0, 1, -0.02, 0.02) + 1) % 1,
       THREE.MathUtils.clamp(hsl.s + THREE.MathUtils.mapLinear(altitude, 0, 1, 0.1, -0.05), 0, 1),
       THREE.MathUtils.clamp(hsl.l + THREE.MathUtils.mapLinear(altitude, 0, 1, -0.1, 0.18), 0, 1)
     )
-    colors.push(c.r, c.g, c.b)
+    const tint = biomeTints[biomeAt(world, planet, up, altitude)]
+    c.lerp(tint.color, tint.amount)
+    c.toArray(colors, i * 3)
   }
-  positions.needsUpdate = true
-  geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3))
+  build.next = positions.count
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
   geometry.computeVertexNormals()
+  return true
+}
 
+function createPlanetView(planet: Planet): PlanetView {
   const material = new THREE.MeshStandardMaterial({
-    color: params.color,
+    color: planet.color,
     roughness: 0.6,
     metalness: 0.08,
     vertexColors: true,
     envMapIntensity: 0.7,
   })
-  const mesh = new THREE.Mesh(geometry, material)
+  addNightSide(material, skyLight)
+  const mesh = new THREE.Mesh(undefined, material)
   mesh.castShadow = true
   mesh.receiveShadow = true
 
@@ -370,59 +428,197 @@ function createPlanet(params: Omit<Planet, 'mesh' | 'pivot'>): Planet {
   pivot.add(mesh)
   scene.add(pivot)
 
-  mesh.position.set(params.orbitalRadius, 0, 0)
-  mesh.rotation.x = params.axialTilt
-
-  const planet: Planet = { ...params, mesh, pivot }
-  planets.push(planet)
+  mesh.position.copy(planet.position)
+  mesh.rotation.x = planet.axialTilt
 
-  // Atmosphere shell
-  const atmosphere = new THREE.Mesh(
-    new THREE.SphereGeometry(params.radius * 1.06, 48, 48),
-    new THREE.MeshBasicMaterial({ color: new THREE.Color(params.color).multiplyScalar(1.1), transparent: true, opacity: 0.15, blending: THREE.AdditiveBlending, side: THREE.BackSide })
-  )
+  // Atmosphere shell, sharing its sphere with every other planet's
+  const airColor = new THREE.Color(planet.atmosphereColor ?? new THREE.Color(planet.color).multiplyScalar(1.1))
+  const atmosphere = new THREE.Mesh(atmosphereGeometry, createAtmosphereMaterial(skyLight, planet.radius, airColor, planet.atmosphereDensity ?? 1))
+  atmosphere.scale.setScalar(planet.radius * (1 + atmosphereHeight))
   mesh.add(atmosphere)
 
+  // Seas fill the basins up to sea level, the planet's radius
+  const ocean = new THREE.Mesh(atmosphereGeometry, oceanMaterial)
+  ocean.scale.setScalar(planet.radius)
+  ocean.receiveShadow = true
+  mesh.add(ocean)
+
+  const view: PlanetView = {
+    planet, mesh, pivot, surfaces: [], detail: defaultDetail, building: null, atmosphere, trees: null,
+    fruit: null, fruitSlots: new Float32Array(0), fruitShown: new Uint8Array(0),
+  }
+  setSurfaceDetail(view, defaultDetail)
+  planetViews.push(view)
+
   // Trees are generated in generateTreesForPlanet to allow reseeding
-  return planet
+  return view
 }
 
+const atmosphereGeometry = new THREE.SphereGeometry(1, 48, 48)
+const oceanMaterial = new THREE.MeshStandardMaterial({ color: 0x2f6fa8, roughness: 0.15, metalness: 0.1, transparent: true, opacity: 0.8 })
+addNightSide(oceanMaterial, skyLight)
 const sharedTreeTexture = makeTreeTexture()
-const sharedTreeMat = new THREE.SpriteMaterial({ map: sharedTreeTexture, transparent: true, depthWrite: false })
-function clearTreesForPlanet(planet: Planet) {
-  const toRemove: THREE.Object3D[] = []
-  for (const c of planet.mesh.children) {
-    if ((c as any).userData && (c as any).userData.tree) toRemove.push(c)
+const treeGeometry = new THREE.PlaneGeometry(1, 1)
+// Trees are billboards: each instance's plane turns to face the camera, like a sprite
+const sharedTreeMat = new THREE.MeshBasicMaterial({ map: sharedTreeTexture, transparent: true, depthWrite: false })
+sharedTreeMat.onBeforeCompile = shader => {
+  shader.vertexShader = shader.vertexShader.replace('#include <project_vertex>', /* glsl */ `
+    vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(0.0, 0.0, 0.0, 1.0);
+    mvPosition.xy += position.xy * length(instanceMatrix[0].xyz);
+    gl_Position = projectionMatrix * mvPosition;
+  `)
+}
+function clearTreesForPlanet(planet: PlanetView) {
+  if (planet.trees) {
+    planet.mesh.remove(planet.trees)
+    planet.trees.dispose()
+    planet.trees = null
+  }
+  if (planet.fruit) {
+    planet.mesh.remove(planet.fruit)
+    planet.fruit.geometry.dispose()
+    planet.fruit = null
   }
-  toRemove.forEach(c => planet.mesh.remove(c))
 }
-function generateTreesForPlanet(planet: Planet) {
+// Trees stand where the sim planted them, bigger in richer soil, all drawn at once per planet. Their
+// ripe fruit is one set of points per planet.
+const fruitMaterial = new THREE.PointsMaterial({ size: 0.45, color: 0xff8a3d })
+function generateTreesForPlanet(planet: PlanetView) {
   clearTreesForPlanet(planet)
-  const treeCount = Math.floor(THREE.MathUtils.mapLinear(planet.radius, 3, 6, 24, 64))
-  for (let i = 0; i < treeCount; i++) {
-    const sprite = new THREE.Sprite(sharedTreeMat)
-    ;(sprite as any).userData = { tree: true }
-    const lat = THREE.MathUtils.mapLinear(seededRandom(), 0, 1, -Math.PI / 2, Math.PI / 2)
-    const lon = seededRandom() * Math.PI * 2
-    const n = noise3D(Math.cos(lon) * 2, Math.sin(lat) * 2, Math.sin(lon) * 2)
-    const scale = THREE.MathUtils.lerp(0.8, 1.6, (n + 1) / 2)
-    sprite.scale.setScalar(scale)
-    const pos = new THREE.Vector3(
-      Math.cos(lat) * Math.cos(lon),
-      Math.sin(lat),
-      Math.cos(lat) * Math.sin(lon)
-    ).multiplyScalar(planet.radius * 1.01)
-    sprite.position.copy(pos)
-    sprite.lookAt(new THREE.Vector3(0, 0, 0))
-    planet.mesh.add(sprite)
+  const radius = planet.planet.radius
+  const trees = planet.planet.trees
+  const slots = new Float32Array(trees.length * maxFruit * 3)
+  const side = new THREE.Vector3()
+  const across = new THREE.Vector3()
+  const slot = new THREE.Vector3()
+  const instances = new THREE.InstancedMesh(treeGeometry, sharedTreeMat, trees.length)
+  const place = new THREE.Matrix4()
+  trees.forEach((tree, i) => {
+    const scale = THREE.MathUtils.lerp(0.8, 1.6, tree.fertility)
+    const ground = groundRadius(planet.planet, surfaceAltitude(world, planet.planet, tree.direction)) + 0.01 * radius
+    place.makeScale(scale, scale, scale).setPosition(slot.copy(tree.direction).multiplyScalar(ground))
+    instances.setMatrixAt(i, place)
+
+    // Fruit hangs around the canopy
+    side.crossVectors(tree.direction, Math.abs(tree.direction.y) < 0.9 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0)).normalize()
+    across.crossVectors(tree.direction, side)
+    for (let k = 0; k < maxFruit; k++) {
+      const a = k * 2.1
+      slot.copy(tree.direction).multiplyScalar(ground + scale * (0.15 + 0.1 * k))
+        .addScaledVector(side, Math.cos(a) * 0.22 * scale)
+        .addScaledVector(across, Math.sin(a) * 0.22 * scale)
+      slot.toArray(slots, (i * maxFruit + k) * 3)
+    }
+  })
+
+  planet.mesh.add(instances)
+  planet.trees = instances
+
+  const geom = new THREE.BufferGeometry().setAttribute('position', new THREE.BufferAttribute(new Float32Array(slots.length), 3))
+  const fruit = new THREE.Points(geom, fruitMaterial)
+  planet.mesh.add(fruit)
+  planet.fruit = fruit
+  planet.fruitSlots = slots
+  planet.fruitShown = new Uint8Array(trees.length).fill(255)
+  updateFruit(planet)
+}
+
+// Redraw the fruit when some has ripened or been eaten
+function updateFruit(planet: PlanetView) {
+  const trees = planet.planet.trees
+  if (!planet.fruit || trees.every((t, i) => Math.floor(t.fruit) === planet.fruitShown[i])) return
+  const positions = planet.fruit.geometry.attributes.position as THREE.BufferAttribute
+  const array = positions.array as Float32Array
+  let n = 0
+  trees.forEach((tree, i) => {
+    const count = Math.floor(tree.fruit)
+    planet.fruitShown[i] = count
+    for (let k = 0; k < count; k++, n++) array.set(planet.fruitSlots.subarray((i * maxFruit + k) * 3, (i * maxFruit + k + 1) * 3), n * 3)
+  })
+  positions.needsUpdate = true
+  planet.fruit.geometry.setDrawRange(0, n)
+  planet.fruit.geometry.computeBoundingSphere()
+}
+
+// ---------- Level of detail ----------
+// Surfaces come in several resolutions, each built the first time the camera is close enough to need
+// it: coarse spheres from orbit, fine enough up close to see the lie of the land at a critter's
+// height. Levels up to the default are quick to build on the spot; finer ones are built a few
+// milliseconds a frame while the level before stays up. Atmospheres, trees and fruit are hidden
+// once they'd be smaller than a pixel.
+const surfaceDetail = [16, 32, 64, 128, 256] // segments around the sphere
+const defaultDetail = 2
+const vertexSpacing = 8 // pixels between neighbouring surface vertices, at most
+const treeSize = 0.8 // the smallest tree
+const surfaceBuildBudgetMs = 4 // per frame, shared by every planet
+
+function setSurfaceDetail(view: PlanetView, level: number) {
+  // Only the level wanted now is worth finishing
+  if (view.building && view.building.level !== level) stopBuilding(view)
+  if (!view.surfaces[level] && level > defaultDetail) {
+    view.building ??= startSurface(view.planet, level, surfaceDetail[level])
+    if (view.surfaces[view.detail]) return
+    level = defaultDetail // nothing drawn yet: something coarse meanwhile
   }
+  const geometry = view.surfaces[level] ?? surfaceGeometry(view.planet, surfaceDetail[level])
+  view.surfaces[level] = geometry
+  view.mesh.geometry = geometry
+  view.detail = level
+  // Keep the levels either side for zooming in and out; drop the rest
+  view.surfaces.forEach((g, i) => {
+    if (g && Math.abs(i - level) > 1) {
+      g.dispose()
+      view.surfaces[i] = undefined
+    }
+  })
+}
+
+function disposeSurfaces(view: PlanetView) {
+  stopBuilding(view)
+  view.surfaces.forEach(g => g?.dispose())
+  view.surfaces = []
+}
+
+function stopBuilding(view: PlanetView) {
+  view.building?.geometry.dispose()
+  view.building = null
 }
 
-// A few colorful planets with different gravity strengths
-const cobalt = createPlanet({ name: 'Cobalt', radius: 6, color: 0x6ea8ff, orbitalRadius: 40, orbitalSpeed: 0.25, axialTilt: THREE.MathUtils.degToRad(18), rotationSpeed: 0.3, gravityStrength: 22 })
-const saffron = createPlanet({ name: 'Saffron', radius: 4.5, color: 0xffb347, orbitalRadius: 66, orbitalSpeed: 0.18, axialTilt: THREE.MathUtils.degToRad(8), rotationSpeed: 0.45, gravityStrength: 16 })
-const viridian = createPlanet({ name: 'Viridian', radius: 3.8, color: 0x95e78f, orbitalRadius: 90, orbitalSpeed: 0.14, axialTilt: THREE.MathUtils.degToRad(25), rotationSpeed: 0.35, gravityStrength: 12 })
-createPlanet({ name: 'Rose', radius: 3.2, color: 0xff7aa2, orbitalRadius: 115, orbitalSpeed: 0.11, axialTilt: THREE.MathUtils.degToRad(5), rotationSpeed: 0.55, gravityStrength: 10 })
+// Carry on with the surfaces being built, within this frame's budget
+function buildSurfaces() {
+  const deadline = performance.now() + surfaceBuildBudgetMs
+  for (const view of planetViews) {
+    const build = view.building
+    if (!build) continue
+    if (!continueSurface(build, deadline)) return
+    view.building = null
+    view.surfaces[build.level] = build.geometry
+    setSurfaceDetail(view, build.level)
+  }
+}
+
+// Pick each planet's detail for how big it looks from the camera
+const _lodCenter = new THREE.Vector3()
+function updateDetail() {
+  const pixelsPerUnit = container.clientHeight / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) // one unit away
+  for (const view of planetViews) {
+    const { radius } = view.planet
+    const distance = camera.position.distanceTo(view.mesh.getWorldPosition(_lodCenter))
+    const above = Math.max(distance - radius, camera.near) // to the nearest ground
+    const wanted = 2 * Math.PI * radius * pixelsPerUnit / (vertexSpacing * above)
+    let level = surfaceDetail.findIndex(segments => segments >= wanted)
+    if (level < 0) level = surfaceDetail.length - 1
+    // Only coarsen once well clear of the finer level, so the surface doesn't flicker between two
+    if (level < view.detail && wanted > 0.75 * surfaceDetail[view.detail - 1]) level = view.detail
+    if (level !== view.detail || view.building) setSurfaceDetail(view, level)
+
+    view.atmosphere.visible = atmosphereHeight * radius * pixelsPerUnit / distance >= 1
+    setAtmosphereView(view.atmosphere.material, distance < radius * (1 + atmosphereHeight))
+    const treesShown = treeSize * pixelsPerUnit / above >= 1
+    if (view.trees) view.trees.visible = treesShown
+    if (view.fruit) view.fruit.visible = treesShown
+  }
+}
 
 // Planet rings for Saffron
 function makeRingTexture(size = 256): THREE.CanvasTexture {
@@ -452,269 +648,523 @@ function makeRingTexture(size = 256): THREE.CanvasTexture {
   return tex
 }
 
-const ring = new THREE.Mesh(
-  new THREE.RingGeometry(saffron.radius * 1.5, saffron.radius * 2.4, 64),
-  new THREE.MeshBasicMaterial({ map: makeRingTexture(512), color: 0xffffff, transparent: true, side: THREE.DoubleSide, opacity: 0.85 })
-)
-ring.rotation.x = THREE.MathUtils.degToRad(75)
-saffron.mesh.add(ring)
-
-// A couple of moons
-const moons: { planet: Planet; mesh: THREE.Mesh; radius: number; orbitRadius: number; speed: number; angle: number; tilt: number }[] = []
-function addMoon(planet: Planet, radius: number, orbitRadius: number, speed: number, tiltDeg: number) {
-  const moonMesh = new THREE.Mesh(
-    new THREE.SphereGeometry(radius, 24, 24),
+const ringTexture = makeRingTexture(512)
+
+// Moons
+const moonViews: { moon: Moon; mesh: THREE.Mesh }[] = []
+function createMoonView(moon: Moon) {
+  const mesh = new THREE.Mesh(
+    new THREE.SphereGeometry(moon.radius, 24, 24),
     new THREE.MeshStandardMaterial({ color: 0xbac5d6, roughness: 0.95 })
   )
-  scene.add(moonMesh)
-  moons.push({ planet, mesh: moonMesh, radius, orbitRadius, speed, angle: Math.random() * Math.PI * 2, tilt: THREE.MathUtils.degToRad(tiltDeg) })
+  mesh.position.copy(moon.position)
+  scene.add(mesh)
+  moonViews.push({ moon, mesh })
+}
+
+// (Re)build the scene objects for the world's planets and moons, e.g. after loading a save
+function buildSystemViews() {
+  for (const v of planetViews) {
+    scene.remove(v.pivot)
+    clearTreesForPlanet(v)
+    disposeSurfaces(v)
+    v.atmosphere.material.dispose()
+  }
+  for (const v of moonViews) {
+    scene.remove(v.mesh)
+    v.mesh.geometry.dispose()
+  }
+  planetViews.length = 0
+  moonViews.length = 0
+  followPlanet = null
+  followCritter = null
+  followOffset = null
+
+  world.planets.forEach(createPlanetView)
+  for (const v of planetViews) {
+    const spec = v.planet.ring
+    if (!spec) continue
+    const ring = new THREE.Mesh(
+      new THREE.RingGeometry(v.planet.radius * spec.inner, v.planet.radius * spec.outer, 64),
+      new THREE.MeshBasicMaterial({ map: ringTexture, color: 0xffffff, transparent: true, side: THREE.DoubleSide, opacity: spec.opacity ?? 0.85 })
+    )
+    ring.rotation.x = THREE.MathUtils.degToRad(spec.tiltDeg)
+    v.mesh.add(ring)
+  }
+  world.moons.forEach(createMoonView)
+  applyStar()
+}
+
+// Size and color the sun from the system's star
+function applyStar() {
+  sunRadius = world.star.radius
+  sun.geometry.dispose()
+  sun.geometry = new THREE.SphereGeometry(sunRadius, 48, 48)
+  const color = kelvinToRGB(world.star.temperature)
+  sun.material.color.copy(color)
+  sunLight.color.copy(color).lerp(new THREE.Color(0xffffff), 0.5)
+  skyLight.sunColor.value.copy(sunLight.color)
+  sunGlowTargetScale = sunRadius * 6
+  sunGlow.scale.setScalar(sunGlowTargetScale)
 }
-addMoon(cobalt, 1.1, cobalt.radius + 7, 1.6, 25)
-addMoon(viridian, 0.9, viridian.radius + 5.5, 1.2, -15)
+buildSystemViews()
 
 // ---------- Critter Factory (Skinned, smooth body) ----------
-const critterNames = ['Scrappybara', 'Blanca', 'Diagaur', 'Mochi', 'Pip', 'Nori', 'Boba', 'Zuzu', 'Mimi', 'Peanut', 'Luna', 'Kiki']
-const critters: Critter[] = []
+// One view per simulated critter, created and dropped as the roster changes (see syncViews).
+// Critters are drawn in batches by body type; only the followed one gets a skinned rig.
+const critterViews = new Map<Critter, CritterView>()
+const crowd = createCrowd()
+scene.add(crowd.root)
 
-function makeSmoothCritterMaterial(baseColor: number): THREE.MeshStandardMaterial {
+function makeSmoothCritterMaterial(baseColor: THREE.Color): THREE.MeshStandardMaterial {
   return new THREE.MeshStandardMaterial({ color: baseColor, roughness: 0.25, metalness: 0.05 })
 }
 
-function makeLeg(material: THREE.Material, length: number, thickness: number): THREE.Group {
-  const g = new THREE.Group()
-  const upper = new THREE.Mesh(new THREE.CylinderGeometry(thickness, thickness, length * 0.55, 8), material)
-  const lower = new THREE.Mesh(new THREE.CylinderGeometry(thickness * 0.8, thickness * 0.8, length * 0.55, 8), material)
-  upper.position.y = -length * 0.275
-  lower.position.y = -length * 0.825
-  g.add(upper, lower)
-  return g
-}
-
-function createCritter(name: string, homePlanet: Planet, hueShift: number): Critter {
-  // Build a simple bone chain and a smooth blob geometry skinned to it
-  const segments = 4
-  const bones: THREE.Bone[] = []
-  let prev: THREE.Bone | null = null
-  for (let i = 0; i < segments; i++) {
-    const bone = new THREE.Bone()
-    bone.position.y = i === 0 ? 0 : 1.2
-    if (prev) prev.add(bone)
-    bones.push(bone)
-    prev = bone
+function createCritterView(critter: Critter): CritterView {
+  const color = new THREE.Color().setHSL(critter.hue, 0.55, 0.65)
+  const view: CritterView = {
+    critter,
+    position: critter.position.clone(),
+    quaternion: critter.quaternion.clone(),
+    crowd: createCrowdMember(critter, color),
+    rig: null,
+    nameTag: null,
+    tagOwner: null,
   }
+  critterViews.set(critter, view)
+  return view
+}
 
-  const skeleton = new THREE.Skeleton(bones)
-
-  // Smooth capsule-like body
-  const baseScale = THREE.MathUtils.lerp(0.8, 1.4, Math.random())
-  const bodyGeo = new THREE.SphereGeometry(1.2 * baseScale, 32, 32)
-  // Skinning attributes
-  const skinIndices = [] as number[]
-  const skinWeights = [] as number[]
-  const vertex = new THREE.Vector3()
-
-  for (let i = 0; i < bodyGeo.attributes.position.count; i++) {
-    vertex.fromBufferAttribute(bodyGeo.attributes.position as THREE.BufferAttribute, i)
-    const y = THREE.MathUtils.clamp((vertex.y + 1.2) / 2.4, 0, 1)
-    // Blend across bones smoothly from bottom to top
-    const boneIndex = Math.floor(y * (segments - 1))
-    const nextIndex = Math.min(boneIndex + 1, segments - 1)
-    const t = (y * (segments - 1)) % 1
-
-    skinIndices.push(boneIndex, nextIndex, 0, 0)
-    skinWeights.push(1 - t, t, 0, 0)
+// Swap between the crowd and a full rig
+function setDetailed(view: CritterView, detailed: boolean) {
+  if (detailed && !view.rig) {
+    view.rig = createCritterRig(view.critter, makeSmoothCritterMaterial(view.crowd.color))
+    scene.add(view.rig.body)
+  } else if (!detailed && view.rig) {
+    scene.remove(view.rig.body)
+    disposeCritterRig(view.rig)
+    view.rig = null
   }
+}
 
-  bodyGeo.setAttribute('skinIndex', new THREE.Uint16BufferAttribute(skinIndices, 4))
-  bodyGeo.setAttribute('skinWeight', new THREE.Float32BufferAttribute(skinWeights, 4))
+function removeCritterView(view: CritterView) {
+  setNameTag(view, null)
+  setDetailed(view, false)
+  critterViews.delete(view.critter)
+}
 
-  const color = new THREE.Color().setHSL(hueShift, 0.55, 0.65).getHex()
-  const material = makeSmoothCritterMaterial(color)
+// ---------- Physics-like parameters ----------
+const params = world.params
 
-  const rootBone = bones[0]
-  const mesh = new THREE.SkinnedMesh(bodyGeo, material)
-  const skeletonHelper = new THREE.SkeletonHelper(rootBone)
-  skeletonHelper.visible = false
-  scene.add(skeletonHelper)
+const gui = new GUI({ title: 'Solar Critters' })
+const f1 = gui.addFolder('Dynamics')
+const slider = (k: keyof SimParams) => f1.add(params, k, ...paramRanges[k])
+slider('timeScale')
+slider('gravityGlobal')
+slider('leapImpulse')
+slider('spaceDrag')
+slider('stickiness')
+slider('wanderSpeed')
+slider('lifespan')
+slider('populationCap')
+slider('fruitGrowth')
+slider('restitution')
+f1.add(params, 'orbitMode', { Programmed: orbitModes.programmed, Kepler: orbitModes.kepler, 'N-body': orbitModes.nbody }).name('orbits')
+slider('orbitEccentricity')
+slider('planetMass').name('planetMass (N-body)')
+// Hosts share their tweaks with everyone in the room
+f1.onChange(() => scheduleConfigBroadcast())
 
-  mesh.add(rootBone)
-  mesh.bind(skeleton)
-  mesh.castShadow = true
-  mesh.receiveShadow = true
+// ---------- Config + Multiplayer Wiring ----------
+// Presets are star systems (src/systems/*.json); players can add their own from a file
+const systems = new Map(presetSystems.map(s => [s.name, s]))
+let currentPreset = presetSystems[0].name
+function applySystem(system: StarSystem) {
+  systems.set(system.name, system)
+  currentPreset = system.name
+  resetWorld(world, systemWorldOptions(system))
+  worldReplaced()
+}
 
-  // Add tiny ears for cuteness
-  const earGeo = new THREE.SphereGeometry(0.35, 16, 16)
-  const earL = new THREE.Mesh(earGeo, material)
-  const earR = new THREE.Mesh(earGeo, material)
-  earL.position.set(-0.6, 1.2, 0.35)
-  earR.position.set(0.6, 1.2, 0.35)
-  mesh.add(earL, earR)
-
-  const mixer = new THREE.AnimationMixer(mesh)
-  const types: Critter['bodyType'][] = ['worm', 'insect', 'biped', 'quadruped']
-  const bodyType = types[Math.floor(Math.random() * types.length)]
-
-  const legs: THREE.Group[] = []
-  if (bodyType === 'insect') {
-    for (let i = -1; i <= 1; i++) {
-      const legL = makeLeg(material, 1.2 * baseScale, 0.12 * baseScale)
-      const legR = makeLeg(material, 1.2 * baseScale, 0.12 * baseScale)
-      legL.position.set(-0.9 * baseScale, 0.2 * baseScale, i * 0.6 * baseScale)
-      legR.position.set(0.9 * baseScale, 0.2 * baseScale, i * 0.6 * baseScale)
-      mesh.add(legL, legR)
-      legs.push(legL, legR)
+// Host owns the critter simulation; clients only render snapshots.
+// The host registers under the room ID itself, so the room ID is what clients connect to.
+type Role = 'host' | 'client' | null
+// PeerJS cloud by default; ?transport=... selects a self-hosted PeerServer, a WebSocket relay or loopback
+const transportConfig = parseTransportConfig(location.search)
+let peer: Transport | null = null
+let connections: Connection[] = []
+let mpRole: Role = null
+let mpRoomId: string | null = null
+let myName = 'Guest'
+let gameStarted = false
+const remoteCursors: { name: string; mesh: THREE.Sprite }[] = []
+// Per-connection bookkeeping: who is on the other end, whether the hello handshake is done,
+// when we last heard from them, and how often they sent something we had to throw away
+interface ConnectionMeta {
+  name: string | null
+  ready: boolean
+  lastSeen: number
+  allow: ReturnType<typeof createRateLimiter>
+  violations: number
+}
+const connectionMeta = new Map<Connection, ConnectionMeta>()
+const maxViolations = 50
+let mpRejected = false // the host turned us away; don't keep knocking
+const peerTimeoutMs = 8000 // camera presence doubles as a heartbeat (every 200ms)
+const reconnectBaseDelayMs = 1000
+const reconnectMaxDelayMs = 15000
+let reconnectAttempts = 0
+let reconnectTimer: number | null = null
+
+function initMultiplayer(role: Role, roomId?: string) {
+  if (!role && !roomId) return
+  mpRole = role || 'client'
+  mpRoomId = roomId || null
+  showMpStatusHud()
+  showChat()
+  setMpStatus(mpRole === 'host' ? `Opening room ${roomId}…` : `Connecting to ${roomId}…`)
+
+  peer = createTransport(transportConfig, mpRole === 'host' ? roomId : undefined)
+  const self = peer
+  self.on('open', (id: string) => {
+    if (mpRole === 'host') {
+      mpRoomId = id
+      updateMpStatus()
+    } else if (!connections.some(c => c.open)) {
+      connectToHost()
+    }
+  })
+  self.on('connection', conn => {
+    if (mpRole !== 'host') { conn.close(); return }
+    attachConnection(conn)
+  })
+  self.on('disconnected', () => {
+    // Lost the signalling server; existing data channels keep working, but we need it to (re)connect
+    if (self.destroyed) return
+    setMpStatus('Signalling server lost — reconnecting…')
+    setTimeout(() => { if (!self.destroyed && self.disconnected) self.reconnect() }, reconnectBaseDelayMs)
+  })
+  self.on('error', (err: TransportError) => {
+    if (err.type === 'unavailable-id' && mpRole === 'host') {
+      // Somebody already hosts this room: join it rather than fail
+      setMpStatus(`Room ${roomId} is already hosted — joining it instead`)
+      self.destroy()
+      initMultiplayer('client', roomId)
+      return
     }
-  } else if (bodyType === 'biped') {
-    const legL = makeLeg(material, 1.4 * baseScale, 0.16 * baseScale)
-    const legR = makeLeg(material, 1.4 * baseScale, 0.16 * baseScale)
-    legL.position.set(-0.45 * baseScale, -0.2 * baseScale, 0.2 * baseScale)
-    legR.position.set(0.45 * baseScale, -0.2 * baseScale, 0.2 * baseScale)
-    mesh.add(legL, legR)
-    legs.push(legL, legR)
-  } else if (bodyType === 'quadruped') {
-    const offsets = [
-      [-0.6, -0.1, 0.5],
-      [0.6, -0.1, 0.5],
-      [-0.6, -0.1, -0.5],
-      [0.6, -0.1, -0.5],
-    ]
-    for (const [x, y, z] of offsets) {
-      const leg = makeLeg(material, 1.3 * baseScale, 0.14 * baseScale)
-      leg.position.set(x * baseScale, y * baseScale, z * baseScale)
-      mesh.add(leg)
-      legs.push(leg)
+    if (err.type === 'peer-unavailable' && mpRole === 'client') {
+      // Host not (yet) registered: drop the pending connection and keep trying
+      for (const c of [...connections]) if (!c.open) dropConnection(c)
+      return
     }
-  } // worms have no extra legs
-
-  const critter: Critter = {
-    name,
-    body: mesh,
-    skeleton,
-    bones,
-    mixer,
-    bodyType,
-    legs,
-    state: 'grounded',
-    targetPlanet: null,
-    homePlanet,
-    velocity: new THREE.Vector3(),
-    surfaceOffset: 1.4 * baseScale, // hover a bit above ground for smoothness
-    wanderPhase: Math.random() * Math.PI * 2,
-    gaitPhase: Math.random() * Math.PI * 2,
-    sizeScale: baseScale,
-    excitement: Math.random() * 0.6 + 0.2,
-    socialTarget: null,
-    nextSocialTime: 1 + Math.random() * 3,
-  }
+    console.warn('Peer error', err)
+  })
+}
 
-  // Place on home planet surface at random longitude
-  const a = Math.random() * Math.PI * 2
+function connectToHost() {
+  if (!peer || peer.destroyed || !mpRoomId) return
+  setMpStatus(`Connecting to ${mpRoomId}…`)
+  const conn = peer.connect(mpRoomId)
+  attachConnection(conn)
+  conn.on('open', () => {
+    reconnectAttempts = 0
+    sendTo(conn, { t: 'hello', v: PROTOCOL_VERSION, name: myName })
+  })
+}
 
-  const planetWorldPos = new THREE.Vector3()
-  homePlanet.mesh.getWorldPosition(planetWorldPos)
-  const normal = new THREE.Vector3(Math.cos(a), 0, Math.sin(a)).normalize()
-  critter.body.position.copy(planetWorldPos).add(normal.multiplyScalar(homePlanet.radius + critter.surfaceOffset))
+function scheduleReconnect() {
+  if (reconnectTimer !== null || !peer || peer.destroyed || mpRejected) return
+  reconnectAttempts++
+  const delay = Math.min(reconnectBaseDelayMs * 2 ** (reconnectAttempts - 1), reconnectMaxDelayMs)
+  setMpStatus(`Host lost — retrying in ${Math.round(delay / 1000)}s (attempt ${reconnectAttempts})`)
+  reconnectTimer = window.setTimeout(() => {
+    reconnectTimer = null
+    // If the signalling link is down the 'open' handler will reconnect to the host once it is back
+    if (peer && peer.disconnected) peer.reconnect()
+    else connectToHost()
+  }, delay)
+}
 
-  scene.add(critter.body)
-  critters.push(critter)
-  return critter
+function attachConnection(conn: Connection) {
+  connections.push(conn)
+  connectionMeta.set(conn, { name: null, ready: false, lastSeen: performance.now(), allow: createRateLimiter(), violations: 0 })
+  conn.on('data', data => receiveFrom(conn, data))
+  conn.on('close', () => dropConnection(conn))
+  conn.on('error', err => {
+    console.warn('Connection error', err)
+    dropConnection(conn)
+  })
 }
 
-// Spawn critters across planets
-planets.forEach((p, i) => {
-  const perPlanet = 2
-  for (let k = 0; k < perPlanet; k++) {
-    const name = critterNames[(i * 3 + k) % critterNames.length]
-    createCritter(name, p, ((i * 3 + k) % critterNames.length) / critterNames.length)
+function dropConnection(conn: Connection) {
+  const i = connections.indexOf(conn)
+  if (i < 0) return
+  connections.splice(i, 1)
+  const meta = connectionMeta.get(conn)
+  connectionMeta.delete(conn)
+  if (meta && meta.name) {
+    removeRemoteCursor(meta.name)
+    if (mpRole === 'host' && meta.ready) releaseAvatar(world, meta.name)
   }
-})
-
-// ---------- Physics-like parameters ----------
-const params = {
-  timeScale: 1.0,
-  gravityGlobal: 70, // base strength of inter-planet gravity for critters
-  leapImpulse: 24, // initial jump impulse
-  spaceDrag: 0.02, // slow critters in space so they arc nicely
-  stickiness: 16, // how quickly critters align to surfaces
-  wanderSpeed: 0.8, // how fast grounded critters meander
-  orbitEccentricity: 0.12, // eccentricity factor for path fun
+  try { conn.close() } catch {}
+  if (mpRole === 'client') scheduleReconnect()
+  else updateMpStatus()
 }
 
-const gui = new GUI({ title: 'Solar Critters' })
-const f1 = gui.addFolder('Dynamics')
-f1.add(params, 'timeScale', 0.2, 2.0, 0.01)
-f1.add(params, 'gravityGlobal', 10, 200, 1)
-f1.add(params, 'leapImpulse', 6, 60, 1)
-f1.add(params, 'spaceDrag', 0, 0.2, 0.001)
-f1.add(params, 'stickiness', 4, 40, 1)
-f1.add(params, 'wanderSpeed', 0, 3, 0.01)
-f1.add(params, 'orbitEccentricity', 0, 0.6, 0.01)
+function removeRemoteCursor(name: string) {
+  const i = remoteCursors.findIndex(c => c.name === name)
+  if (i < 0) return
+  const cur = remoteCursors[i]
+  scene.remove(cur.mesh)
+  cur.mesh.material.dispose()
+  remoteCursors.splice(i, 1)
+}
 
-// ---------- Config + Multiplayer Wiring ----------
-type GameConfigKey = 'eden' | 'wander' | 'carnival'
-function applyConfig(key: GameConfigKey) {
-  switch (key) {
-    case 'eden':
-      params.gravityGlobal = 70; params.leapImpulse = 24; params.spaceDrag = 0.02; params.wanderSpeed = 0.8; params.orbitEccentricity = 0.12
-      break
-    case 'wander':
-      params.gravityGlobal = 55; params.leapImpulse = 20; params.spaceDrag = 0.03; params.wanderSpeed = 1.1; params.orbitEccentricity = 0.08
-      break
-    case 'carnival':
-      params.gravityGlobal = 90; params.leapImpulse = 36; params.spaceDrag = 0.01; params.wanderSpeed = 1.6; params.orbitEccentricity = 0.2
-      break
+// Drop peers that went silent without closing the channel (closed laptop, dead network)
+setInterval(() => {
+  const now = performance.now()
+  for (const conn of [...connections]) {
+    const meta = connectionMeta.get(conn)
+    if (meta && now - meta.lastSeen > peerTimeoutMs) {
+      console.warn('Peer timed out', meta.name || conn.peer)
+      dropConnection(conn)
+    }
   }
+}, 1000)
+
+// The status line lives on the start screen; keep it visible in a corner once the game starts
+function showMpStatusHud() {
+  const el = document.getElementById('mpStatus')
+  if (!el) return
+  document.body.appendChild(el)
+  el.classList.add('mp-hud')
 }
 
-// Minimal state sync (future use)
-type Role = 'host' | 'client' | null
-let peer: Peer | null = null
-let connections: any[] = []
-let myName = 'Guest'
-const remoteCursors: { name: string; mesh: THREE.Sprite }[] = []
-function initMultiplayer(role: Role, roomId?: string) {
-  if (!role && !roomId) return
-  peer = new Peer({ debug: 1 })
-  peer.on('open', () => {
-    if (role === 'host') {
-      // Host uses its own id (or hash) and accepts connections
-      peer!.on('connection', (conn: any) => {
-        connections.push(conn)
-        conn.on('data', (data: any) => handleRemote(data))
-      })
-    } else if (roomId) {
-      const conn = peer!.connect(roomId)
-      connections.push(conn)
-      conn.on('open', () => {})
-      conn.on('data', (data: any) => handleRemote(data))
-    }
-  })
-  peer.on('error', err => { console.warn('Peer error', err) })
+function setMpStatus(text: string) {
+  const el = document.getElementById('mpStatus')
+  if (el) el.textContent = text
+}
+
+function updateMpStatus() {
+  const open = connections.filter(c => c.open && connectionMeta.get(c)?.ready).length
+  if (mpRole === 'host') {
+    setMpStatus(open === 0 ? `Hosting ${mpRoomId} · waiting for players` : `Hosting ${mpRoomId} · ${open} peer${open === 1 ? '' : 's'}`)
+  } else if (open > 0) {
+    setMpStatus(`Connected to ${mpRoomId} as ${myName}`)
+  }
 }
 
 // Expose a start function for the start screen
-;(window as any).startGame = (cfg: GameConfigKey, role: Role, roomId?: string, name?: string) => {
-  applyConfig(cfg)
-  myName = name || 'Guest'
+;(window as any).startGame = (cfg: string, role: Role, roomId?: string, name?: string) => {
+  // A shared world link (or a save dropped on the start screen) brings its own system and tuning
+  const system = systems.get(cfg)
+  if (!worldLoaded && system) applySystem(system)
+  gameStarted = true
+  myName = (name || 'Guest').trim().slice(0, maxNameLength) || 'Guest'
   initMultiplayer(role, roomId)
+  // Clients get their avatar from the host once the handshake is done
+  if (mpRole !== 'client') ensureAvatar(world, myName)
 }
 
+// ---------- Save / Load ----------
+// Save files and #w= share links capture the whole world; loading one on the host replaces it
+// for everyone in the room. Star-system files start a fresh world from that system.
+let worldLoaded = false
+
+function applyWorldSave(save: WorldSave) {
+  loadWorld(world, save)
+  currentPreset = save.preset
+  worldLoaded = true
+  worldReplaced()
+}
+
+// Rebuild the scene after the world was swapped out, and bring the room along
+function worldReplaced() {
+  snapshotBuffer.length = 0
+  buildSystemViews()
+  regenerateWorld()
+  worldActions.seed = world.seed
+  gui.controllersRecursive().forEach(c => c.updateDisplay())
+  if (mpRole === 'client') return
+  // The new world has no avatars yet; hand everyone a critter again
+  if (gameStarted) ensureAvatar(world, myName)
+  for (const meta of connectionMeta.values()) {
+    if (meta.ready && meta.name) ensureAvatar(world, meta.name)
+  }
+  scheduleWorldBroadcast()
+}
+
+function downloadWorldSave() {
+  const blob = new Blob([JSON.stringify(saveWorld(world, currentPreset), null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `solar-critters-${world.seed}.json`
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+async function openWorldFile(file: File) {
+  if (mpRole === 'client') return
+  let data: unknown = null
+  try { data = JSON.parse(await file.text()) } catch {}
+  const save = parseWorldSave(data)
+  const system = save ? null : parseStarSystem(data)
+  if (save) applyWorldSave(save)
+  else if (system && gameStarted) applySystem(system)
+  else if (system) addSystemChoice(system)
+  else alert(`${file.name} is not a world save or star system this version can load`)
+}
+
+const saveFileInput = document.createElement('input')
+saveFileInput.type = 'file'
+saveFileInput.accept = '.json,application/json'
+saveFileInput.onchange = () => {
+  const file = saveFileInput.files?.[0]
+  saveFileInput.value = ''
+  if (file) openWorldFile(file)
+}
+
+// Files can also be dropped anywhere on the page
+window.addEventListener('dragover', (e) => e.preventDefault())
+window.addEventListener('drop', (e) => {
+  e.preventDefault()
+  const file = e.dataTransfer?.files[0]
+  if (file) openWorldFile(file)
+})
+
+// Start screen: a system file becomes another choice next to the presets
+function addSystemChoice(system: StarSystem) {
+  systems.set(system.name, system)
+  const picker = document.getElementById('systemFile')?.closest('label')
+  if (!picker) return
+  const existing = [...document.querySelectorAll<HTMLInputElement>('input[name="cfg"]')].find(i => i.value === system.name)
+  if (existing) {
+    existing.checked = true
+    return
+  }
+  const label = document.createElement('label')
+  const input = document.createElement('input')
+  input.type = 'radio'
+  input.name = 'cfg'
+  input.value = system.name
+  input.checked = true
+  label.append(input, ` ${system.title}`)
+  picker.before(label)
+}
+const systemFileInput = document.getElementById('systemFile') as HTMLInputElement | null
+if (systemFileInput) {
+  systemFileInput.onchange = () => {
+    const file = systemFileInput.files?.[0]
+    systemFileInput.value = ''
+    if (file) openWorldFile(file)
+  }
+}
+
+async function copyWorldLink() {
+  history.replaceState({}, '', await encodeWorldHash(saveWorld(world, currentPreset)))
+  try { await navigator.clipboard.writeText(location.href) } catch {}
+}
+
+const worldActions = { seed: world.seed, save: downloadWorldSave, load: () => saveFileInput.click(), link: copyWorldLink }
+const f2 = gui.addFolder('World')
+// Typing a seed generates a new system from it
+const seedController = f2.add(worldActions, 'seed').name('Seed').onFinishChange((seed: string) => {
+  const clean = seed.trim().slice(0, 128)
+  if (clean && clean !== world.seed) reseedWorld(clean)
+  worldActions.seed = world.seed
+  seedController.updateDisplay()
+})
+f2.add(worldActions, 'save').name('Save to file')
+const loadWorldController = f2.add(worldActions, 'load').name('Load from file')
+f2.add(worldActions, 'link').name('Copy share link')
+
+decodeWorldHash(location.hash).then(save => {
+  if (save) applyWorldSave(save)
+})
+
 // ---------- Simple state sync ----------
-type Msg =
-  | { t: 'camera'; name: string; p: { x: number, y: number, z: number }; g: { x: number, y: number, z: number } }
-  | { t: 'seed'; s: string }
+function sendTo(conn: Connection, msg: Msg) {
+  if (conn.open) conn.send(msg)
+}
 
+// Only peers that completed the handshake get game traffic
 function broadcast(msg: Msg) {
   for (const c of connections) {
-    if (c.open) c.send(msg)
+    if (connectionMeta.get(c)?.ready) sendTo(c, msg)
+  }
+}
+
+// Host: pass a message on to every other player
+function relay(msg: Msg, except: Connection) {
+  for (const c of connections) {
+    if (c !== except && connectionMeta.get(c)?.ready) sendTo(c, msg)
   }
 }
 
-function handleRemote(msg: Msg) {
+// Everything off the wire is untrusted: validate, rate-limit, and only then act on it
+function receiveFrom(conn: Connection, data: unknown) {
+  const meta = connectionMeta.get(conn)
+  if (!meta) return
+  meta.lastSeen = performance.now()
+  const msg = parseMsg(data)
+  const limited = mpRole === 'host' && msg !== null && !meta.allow(msg.t, meta.lastSeen)
+  if (!msg || limited || (!meta.ready && msg.t !== 'hello' && msg.t !== 'reject')) {
+    if (++meta.violations > maxViolations) {
+      console.warn('Dropping misbehaving peer', meta.name || conn.peer)
+      dropConnection(conn)
+    }
+    return
+  }
+  handleRemote(msg, conn, meta)
+}
+
+function handleRemote(msg: Msg, from: Connection, meta: ConnectionMeta) {
   switch (msg.t) {
-    case 'camera':
+    case 'hello': {
+      if (mpRole === 'host') {
+        if (meta.ready) return
+        const answer = answerHello(msg, { name: myName, preset: currentPreset, params, o: world.time }, peerNameTaken)
+        if (answer.name === null) return rejectPeer(from, answer.reply.reason)
+        meta.ready = true
+        meta.name = answer.name
+        ensureAvatar(world, answer.name)
+        sendTo(from, answer.reply)
+        // Bring late joiners up to date right away instead of waiting for the next tick
+        sendTo(from, { t: 'world', w: saveWorld(world, currentPreset) })
+        sendTo(from, makeCritterSnapshot())
+      } else {
+        const reason = checkHello(msg)
+        if (reason) {
+          // It's the host that is incompatible; stop retrying and say why
+          mpRejected = true
+          setHostControlsLocked(false)
+          setMpStatus(reason)
+          rejectPeer(from, reason)
+          return
+        }
+        if (meta.ready) return
+        meta.ready = true
+        meta.name = msg.name.trim()
+        // Somebody in the room already had our name; the host picked another
+        if (msg.you) myName = msg.you
+        if (msg.params) applyWorldConfig(msg.preset, msg.params, msg.o)
+        setHostControlsLocked(true)
+      }
+      updateMpStatus()
+      break
+    }
+    case 'reject':
+      if (mpRole !== 'client') return
+      mpRejected = true
+      setHostControlsLocked(false)
+      dropConnection(from)
+      setMpStatus(`Rejected by host: ${msg.reason}`)
+      break
+    case 'camera': {
       // Show/update a remote presence sprite at their target
-      const key = msg.name
+      const key = meta.name
+      if (!key) return
       let cur = remoteCursors.find(c => c.name === key)
       if (!cur) {
         const spr = new THREE.Sprite(new THREE.SpriteMaterial({ color: 0x9cc3ff, opacity: 0.9 }))
@@ -725,191 +1175,841 @@ function handleRemote(msg: Msg) {
       }
       cur.mesh.position.set(msg.g.x, msg.g.y, msg.g.z)
       break
+    }
+    case 'config':
+      if (mpRole === 'client') applyWorldConfig(msg.preset, msg.params, msg.o)
+      break
     case 'seed':
-      reseedWorld(msg.s)
+      // World state only flows from the host
+      if (mpRole === 'client' && msg.s !== world.seed) reseedWorld(msg.s)
+      break
+    case 'world':
+      if (mpRole === 'client') applyWorldSave(msg.w)
+      break
+    case 'critters':
+      if (mpRole === 'client') receiveCritterSnapshot(msg.o, msg.c, msg.b)
+      if (mpRole === 'client' && msg.f) applyFruitSnapshot(msg.f)
+      break
+    case 'chat':
+    case 'emote': {
+      // The host knows who sent it and passes it on; clients trust the name the host stamped
+      const sender = mpRole === 'host' ? meta.name : msg.from
+      if (!sender) return
+      if (mpRole === 'host') relay({ ...msg, from: sender }, from)
+      if (msg.t === 'chat') receiveChat(sender, msg.text)
+      else receiveEmote(sender, msg.e)
+      break
+    }
+    case 'input':
+      // Only the host simulates, so only the host steers avatars
+      if (mpRole === 'host' && meta.name) {
+        const name = meta.name
+        const input = world.inputs.get(name) || { forward: 0, turn: 0, leap: false, adopt: null }
+        input.forward = THREE.MathUtils.clamp(msg.f, -1, 1)
+        input.turn = THREE.MathUtils.clamp(msg.r, -1, 1)
+        // Edge-triggered actions stay latched until the simulation consumes them; adopting
+        // picks the critter nearest the player's camera target
+        input.leap = input.leap || msg.leap
+        if (msg.adopt && !input.adopt) input.adopt = remoteCursors.find(r => r.name === name)?.mesh.position.clone() || null
+        world.inputs.set(name, input)
+      }
       break
   }
 }
 
+function rejectPeer(conn: Connection, reason: string) {
+  console.warn('Rejecting peer', conn.peer, reason)
+  sendTo(conn, { t: 'reject', reason })
+  // Give the reject a moment to flush before hanging up
+  setTimeout(() => dropConnection(conn), 500)
+}
+
+function peerNameTaken(name: string): boolean {
+  return name === myName || [...connectionMeta.values()].some(m => m.ready && m.name === name)
+}
+
+// Adopt the host's tuning so orbits and leap arcs match; unknown keys are ignored. The system
+// itself arrives in the 'world' message.
+function applyWorldConfig(preset: string | undefined, hostParams: Record<string, number>, orbit?: number) {
+  if (preset) currentPreset = preset
+  for (const k of Object.keys(params) as (keyof typeof params)[]) {
+    if (k in hostParams) params[k] = hostParams[k]
+  }
+  // Snapshots keep the clock in step once they flow; this covers the gap before the first one
+  if (orbit !== undefined && snapshotBuffer.length === 0) world.time = orbit
+  gui.controllersRecursive().forEach(c => c.updateDisplay())
+}
+
+// Clients can look at the Dynamics sliders but the host decides
+function setHostControlsLocked(locked: boolean) {
+  f1.title(locked ? 'Dynamics (controlled by host)' : 'Dynamics')
+  for (const c of [...f1.controllers, seedController, loadWorldController]) {
+    c.disable(locked)
+    c.domElement.title = locked ? 'Controlled by host' : ''
+  }
+}
+
+// Coalesce slider drags into at most one config message per interval
+const configBroadcastDelayMs = 100
+let configBroadcastTimer: number | null = null
+function scheduleConfigBroadcast() {
+  if (mpRole !== 'host' || configBroadcastTimer !== null) return
+  configBroadcastTimer = window.setTimeout(() => {
+    configBroadcastTimer = null
+    broadcast({ t: 'config', preset: currentPreset, params: { ...params }, o: world.time })
+  }, configBroadcastDelayMs)
+}
+
+// Rerolls and loads can come several a second; the room only needs the world they end up with
+const worldBroadcastDelayMs = 500
+let worldBroadcastTimer: number | null = null
+function scheduleWorldBroadcast() {
+  if (mpRole !== 'host' || worldBroadcastTimer !== null) return
+  worldBroadcastTimer = window.setTimeout(() => {
+    worldBroadcastTimer = null
+    broadcast({ t: 'world', w: saveWorld(world, currentPreset) })
+    lastBroadcast = null
+  }, worldBroadcastDelayMs)
+}
+
 // Periodically send local camera to peers for presence
 setInterval(() => {
   if (!peer || connections.length === 0) return
   const p = camera.position
   const g = controls.target
-  broadcast({ t: 'camera', name: myName, p: { x: p.x, y: p.y, z: p.z }, g: { x: g.x, y: g.y, z: g.z } })
+  broadcast({ t: 'camera', p: { x: p.x, y: p.y, z: p.z }, g: { x: g.x, y: g.y, z: g.z } })
 }, 200)
 
 // Host occasionally broadcasts the seed so late-joiners match the world
 setInterval(() => {
-  if (!peer || connections.length === 0) return
-  broadcast({ t: 'seed', s: worldSeed })
+  if (!peer || connections.length === 0 || mpRole !== 'host') return
+  broadcast({ t: 'seed', s: world.seed })
 }, 4000)
 
-// ---------- Helpers ----------
-function getCombinedGravityAtPoint(point: THREE.Vector3): THREE.Vector3 {
-  const g = new THREE.Vector3()
-  for (const p of planets) {
-    const pw = new THREE.Vector3()
-    p.mesh.getWorldPosition(pw)
-    const toPlanet = new THREE.Vector3().subVectors(pw, point)
-    const d2 = Math.max(toPlanet.lengthSq(), 1e-2)
-    const strength = (params.gravityGlobal * p.gravityStrength) / d2
-    g.add(toPlanet.normalize().multiplyScalar(strength))
-  }
-  return g
-}
-
-function findNearestPlanet(point: THREE.Vector3): { planet: Planet; dist: number; normal: THREE.Vector3 } {
-  let best: Planet = planets[0]
-  let bestDist = Infinity
-  const normal = new THREE.Vector3()
-
-  for (const p of planets) {
-    const pw = new THREE.Vector3()
-    p.mesh.getWorldPosition(pw)
-    const d = point.distanceTo(pw) - p.radius
-    if (d < bestDist) {
-      best = p
-      bestDist = d
-      normal.copy(new THREE.Vector3().subVectors(point, pw).normalize())
-    }
+// Host streams critter state at a fixed rate; fruit ripens slowly, so it only rides along now and then.
+// In between keyframes, fields that haven't changed since the last snapshot are left out.
+const snapshotIntervalMs = 100
+const fruitSnapshotEvery = 10
+const keyframeEvery = 10
+let snapshotsSent = 0
+let lastBroadcast: Map<string, CritterSnapshot> | null = null // null: the next one is a keyframe
+setInterval(() => {
+  if (!peer || connections.length === 0 || mpRole !== 'host') return
+  // Critters of a world the room hasn't been sent yet would only confuse it
+  if (worldBroadcastTimer !== null) return
+  snapshotsSent++
+  const msg = makeCritterSnapshot(snapshotsSent % fruitSnapshotEvery === 0)
+  const keyframe = !lastBroadcast || snapshotsSent % keyframeEvery === 0
+  broadcast(keyframe ? msg : { ...msg, c: msg.c.map(s => leaveOutUnchanged(s, lastBroadcast!.get(s.n))) })
+  lastBroadcast = new Map(msg.c.map(s => [s.n, s]))
+}, snapshotIntervalMs)
+
+// ---------- Critter snapshots ----------
+const round2 = (x: number) => Math.round(x * 100) / 100
+const round3 = (x: number) => Math.round(x * 1000) / 1000
+const newbornSnapshotAge = 3 // seconds; long enough for a few snapshots to carry the genome
+// Clients know critters by name, so a renamed one is new to them and needs its genome too
+const renamedAt = new WeakMap<Critter, number>()
+
+function genomeTuple(g: Genome): GenomeTuple {
+  return [g.legPairs, round3(g.legLength), round3(g.size), round3(g.hue), round3(g.ears), round3(g.temperament)]
+}
+
+function genomeFromTuple([legPairs, legLength, size, hue, ears, temperament]: GenomeTuple): Genome {
+  return { legPairs: Math.round(THREE.MathUtils.clamp(legPairs, 0, 8)), legLength, size: Math.max(size, 0.1), hue, ears, temperament }
+}
+
+// Seeded by the world and the name, so every client that missed a critter's genome makes up the same one
+function standInGenome(name: string): Genome {
+  const random = mulberry32(hashStringToInt32(`${world.seed}:genome:${name}`))
+  return randomGenome(random, random())
+}
+
+// A keyframe: every field of every critter. Positions to the centimetre are plenty under interpolation.
+// Fields a critter doesn't have are left off rather than set to undefined, which PeerJS would send as null.
+function makeCritterSnapshot(withFruit = false): Extract<Msg, { t: 'critters' }> {
+  const msg: Extract<Msg, { t: 'critters' }> = { t: 'critters', o: world.time, c: world.critters.map(critterSnapshot) }
+  if (world.integrating) msg.b = [...world.planets, ...world.moons].map(b => b.position.toArray())
+  if (withFruit) msg.f = world.planets.map(p => p.trees.map(t => Math.floor(t.fruit)))
+  return msg
+}
+
+function critterSnapshot(c: Critter): CritterSnapshot {
+  const s: CritterSnapshot = {
+    n: c.name,
+    p: [round2(c.position.x), round2(c.position.y), round2(c.position.z)],
+    q: [round3(c.quaternion.x), round3(c.quaternion.y), round3(c.quaternion.z), round3(c.quaternion.w)],
+    s: c.state,
+    h: c.homePlanet.name,
+    tp: c.targetPlanet ? c.targetPlanet.name : null,
+    pl: c.owner,
   }
-  return { planet: best, dist: bestDist, normal }
+  if (c.state !== 'grounded') s.v = [round2(c.velocity.x), round2(c.velocity.y), round2(c.velocity.z)]
+  if (c.age < newbornSnapshotAge || world.time - (renamedAt.get(c) ?? -Infinity) < newbornSnapshotAge) s.g = genomeTuple(c.genome)
+  if (c.stunned > 0) s.st = round3(c.stunned)
+  return s
 }
 
-function stickToPlanetSurface(critter: Critter, planet: Planet, delta: number) {
-  const pw = new THREE.Vector3()
-  planet.mesh.getWorldPosition(pw)
-  const toCenter = new THREE.Vector3().subVectors(critter.body.position, pw)
-  const surfacePoint = new THREE.Vector3().copy(toCenter).setLength(planet.radius + critter.surfaceOffset)
-  const desired = new THREE.Vector3().addVectors(pw, surfacePoint)
-  critter.body.position.lerp(desired, Math.min(1, params.stickiness * delta))
+// Between keyframes: drop what the last snapshot already said
+function leaveOutUnchanged(s: CritterSnapshot, last: CritterSnapshot | undefined): CritterSnapshot {
+  if (!last) return s
+  const thin = { ...s }
+  if (s.s === last.s) delete thin.s
+  if (s.h === last.h) delete thin.h
+  if (s.tp === last.tp) delete thin.tp
+  if (s.pl === last.pl) delete thin.pl
+  return thin
+}
 
-  // Align up-axis smoothly
-  const up = surfacePoint.normalize()
-  const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(critter.body.quaternion)
-  const right = new THREE.Vector3().crossVectors(forward, up).normalize()
-  forward.copy(new THREE.Vector3().crossVectors(up, right).normalize())
+// Clients don't grow fruit themselves; they show what's left on the host's trees
+function applyFruitSnapshot(fruit: number[][]) {
+  if (fruit.length !== world.planets.length) return
+  world.planets.forEach((p, i) => {
+    if (fruit[i].length !== p.trees.length) return
+    p.trees.forEach((t, j) => { t.fruit = THREE.MathUtils.clamp(fruit[i][j], 0, maxFruit) })
+  })
+}
 
-  const targetQuat = new THREE.Quaternion().setFromRotationMatrix(
-    new THREE.Matrix4().makeBasis(right, up, forward)
-  )
-  critter.body.quaternion.slerp(targetQuat, 4 * delta)
-}
-
-function wanderOnSurface(critter: Critter, planet: Planet, delta: number) {
-  critter.wanderPhase += delta * params.wanderSpeed
-  critter.gaitPhase += delta * (1.5 + 2.0 * critter.excitement)
-  const pw = new THREE.Vector3()
-  planet.mesh.getWorldPosition(pw)
-  const up = new THREE.Vector3().subVectors(critter.body.position, pw).normalize()
-  const tangent = new THREE.Vector3().crossVectors(up, new THREE.Vector3(0, 1, 0))
-  if (tangent.lengthSq() < 1e-5) tangent.set(1, 0, 0)
-  tangent.normalize()
-  const bitangent = new THREE.Vector3().crossVectors(up, tangent)
-  const wander = new THREE.Vector3().addVectors(
-    tangent.clone().multiplyScalar(Math.cos(critter.wanderPhase)),
-    bitangent.clone().multiplyScalar(Math.sin(critter.wanderPhase * 0.7))
-  )
-  const sunDir = new THREE.Vector3().subVectors(sun.position, pw).normalize()
-  const sunTangent = new THREE.Vector3().subVectors(sunDir, up.clone().multiplyScalar(sunDir.dot(up)))
-  const separation = new THREE.Vector3()
-  for (const other of critters) {
-    if (other === critter) continue
-    const nearest = findNearestPlanet(other.body.position)
-    if (nearest.planet !== planet) continue
-    const d = critter.body.position.distanceTo(other.body.position)
-    if (d < 3 && d > 1e-3) {
-      const away = new THREE.Vector3().subVectors(critter.body.position, other.body.position).normalize()
-      const awayTangent = new THREE.Vector3().subVectors(away, up.clone().multiplyScalar(away.dot(up)))
-      separation.addScaledVector(awayTangent, (3 - d) / 3)
+// Clients render this far behind the newest snapshot so there is always a pair to blend between
+const snapshotInterpDelay = 0.15 // seconds
+// A snapshot with whatever the host left out filled back in
+type KnownCritter = Required<Omit<CritterSnapshot, 'g' | 'st'>> & Pick<CritterSnapshot, 'g' | 'st'>
+interface BufferedSnapshot { at: number; orbit: number; critters: Map<string, KnownCritter>; bodies?: Vec3Tuple[] }
+const snapshotBuffer: BufferedSnapshot[] = []
+const still: Vec3Tuple = [0, 0, 0]
+
+function receiveCritterSnapshot(orbit: number, list: CritterSnapshot[], bodies?: Vec3Tuple[]) {
+  // Unchanged fields come from the previous snapshot, or for critters it didn't have, from our own world
+  const last = snapshotBuffer.length ? snapshotBuffer[snapshotBuffer.length - 1].critters : null
+  const known = new Map(world.critters.map(c => [c.name, c]))
+  const roster = new Map<string, KnownCritter>()
+  for (const s of list) {
+    const before = last?.get(s.n)
+    const c = known.get(s.n)
+    roster.set(s.n, {
+      ...s,
+      s: s.s ?? before?.s ?? c?.state ?? 'grounded',
+      h: s.h ?? before?.h ?? c?.homePlanet.name ?? world.planets[0].name,
+      tp: s.tp !== undefined ? s.tp : before ? before.tp : c?.targetPlanet?.name ?? null,
+      v: s.v ?? still,
+      pl: s.pl !== undefined ? s.pl : before ? before.pl : c?.owner ?? null,
+    })
+  }
+  snapshotBuffer.push({ at: performance.now() / 1000, orbit, critters: roster, bodies })
+  while (snapshotBuffer.length > 10) snapshotBuffer.shift()
+
+  // Reconcile the roster with the host's: spawn critters we don't have, drop ones the host doesn't
+  for (const s of roster.values()) {
+    if (known.has(s.n)) continue
+    const home = findPlanet(world, s.h) || world.planets[0]
+    // Newborns come with their genome; anyone else we somehow missed gets a stand-in look
+    const genome = s.g ? genomeFromTuple(s.g) : standInGenome(s.n)
+    const c = spawnCritter(world, s.n, home, genome)
+    c.position.fromArray(s.p)
+    c.quaternion.fromArray(s.q)
+  }
+  for (const c of world.critters.filter(c => !roster.has(c.name))) removeCritter(world, c)
+}
+
+// Pick the pair of snapshots bracketing the (delayed) render time
+function sampleSnapshots(): { from: BufferedSnapshot; to: BufferedSnapshot; alpha: number; extrapolate: number } | null {
+  if (snapshotBuffer.length === 0) return null
+  const renderAt = performance.now() / 1000 - snapshotInterpDelay
+  let from = snapshotBuffer[0]
+  let to = snapshotBuffer[0]
+  for (let i = snapshotBuffer.length - 1; i >= 0; i--) {
+    if (snapshotBuffer[i].at <= renderAt) {
+      from = snapshotBuffer[i]
+      to = snapshotBuffer[Math.min(i + 1, snapshotBuffer.length - 1)]
+      break
     }
   }
+  const span = to.at - from.at
+  const alpha = span > 0 ? THREE.MathUtils.clamp((renderAt - from.at) / span, 0, 1) : 0
+  // Past the newest snapshot: coast leaping critters along their velocity for a short while
+  const extrapolate = from === to ? THREE.MathUtils.clamp(renderAt - to.at, 0, 0.5) : 0
+  return { from, to, alpha, extrapolate }
+}
 
-  const dir = new THREE.Vector3()
-    .addScaledVector(wander.normalize(), 1.0)
-    .addScaledVector(sunTangent.normalize(), 0.4 + 0.6 * critter.excitement)
-    .addScaledVector(separation.normalize(), 0.8 + 0.8 * critter.excitement)
-    .normalize()
-
-  const speed = 2.0 + 2.2 * critter.excitement
-  const move = dir.multiplyScalar(speed * delta)
-  critter.body.position.add(move)
-
-  // Animate procedural legs
-  const legLift = 0.18 * critter.sizeScale
-  for (let i = 0; i < critter.legs.length; i++) {
-    const leg = critter.legs[i]
-    const phase = critter.gaitPhase + (i % 2 === 0 ? 0 : Math.PI)
-    leg.rotation.z = Math.sin(phase) * 0.5
-    leg.position.y += Math.sin(phase) * legLift * delta
+const _snapQuatA = new THREE.Quaternion()
+const _snapQuatB = new THREE.Quaternion()
+function applyCritterSnapshots(sample: NonNullable<ReturnType<typeof sampleSnapshots>>, delta: number) {
+  const { from, to, alpha, extrapolate } = sample
+  for (const c of world.critters) {
+    const a = from.critters.get(c.name)
+    const b = to.critters.get(c.name) || a
+    if (!a || !b) continue
+    c.position.set(
+      THREE.MathUtils.lerp(a.p[0], b.p[0], alpha),
+      THREE.MathUtils.lerp(a.p[1], b.p[1], alpha),
+      THREE.MathUtils.lerp(a.p[2], b.p[2], alpha)
+    )
+    c.quaternion.copy(_snapQuatA.fromArray(a.q).normalize().slerp(_snapQuatB.fromArray(b.q).normalize(), alpha))
+    // Touching down: the last velocity seen in flight says how hard (near enough; the planet moves too)
+    if (c.state !== 'grounded' && b.s === 'grounded') {
+      const up = new THREE.Vector3().subVectors(c.position, c.homePlanet.position).normalize()
+      spawnLandingHearts(c.position.clone(), -c.velocity.dot(up))
+    }
+    c.velocity.fromArray(b.v)
+    if (b.s !== 'grounded' && extrapolate > 0) c.position.addScaledVector(c.velocity, extrapolate)
+
+    c.state = b.s
+    c.stunned = b.st ?? 0
+    c.homePlanet = findPlanet(world, b.h) || c.homePlanet
+    c.targetPlanet = findPlanet(world, b.tp)
+    c.owner = b.pl
+    if (c.state === 'grounded' && c.stunned === 0) c.gaitPhase += delta * (1.5 + 2.0 * c.excitement)
   }
 }
 
-function maybeLeapBetweenPlanets(critter: Critter) {
-  // Small probability to leap if another planet is attractively near along tangent
-  if (critter.state !== 'grounded') return
-  const baseChance = 0.012 + 0.03 * critter.excitement
-  if (Math.random() > baseChance) return
+// Integrated (N-body) orbits can't be replayed from the clock, so clients blend the host's positions
+function applyBodySnapshots(sample: NonNullable<ReturnType<typeof sampleSnapshots>>) {
+  const { from, to, alpha } = sample
+  const bodies = [...world.planets, ...world.moons]
+  const a = from.bodies
+  const b = to.bodies || a
+  if (!a || !b || a.length !== bodies.length || b.length !== bodies.length) return
+  bodies.forEach((body, i) => body.position.set(
+    THREE.MathUtils.lerp(a[i][0], b[i][0], alpha),
+    THREE.MathUtils.lerp(a[i][1], b[i][1], alpha),
+    THREE.MathUtils.lerp(a[i][2], b[i][2], alpha)
+  ))
+}
 
-  const here = critter.body.position.clone()
-  const { planet } = findNearestPlanet(here)
-  let best: Planet | null = null
-  let bestScore = 0
+// ---------- Player Avatars ----------
+// Each player steers one critter. The host (or solo game) simulates every avatar from the
+// players' inputs in world.inputs; clients just send theirs and see the result through the snapshots.
+interface LocalInput {
+  forward: number
+  turn: number
+  leap: boolean
+  adopt: boolean // swap to the unclaimed critter nearest the camera target
+}
 
-  for (const p of planets) {
-    if (p === planet) continue
-    const pw = new THREE.Vector3()
-    p.mesh.getWorldPosition(pw)
-    const dist = here.distanceTo(pw)
-    const dirTo = new THREE.Vector3().subVectors(pw, here).normalize()
+function setNameTag(view: CritterView, owner: string | null) {
+  view.tagOwner = owner
+  if (view.nameTag) {
+    scene.remove(view.nameTag)
+    view.nameTag.material.map?.dispose()
+    view.nameTag.material.dispose()
+    view.nameTag = null
+  }
+  if (owner) {
+    view.nameTag = makeNameTag(owner)
+    scene.add(view.nameTag)
+  }
+}
 
-    // Score based on closeness and alignment with the local tangent plane (encourage lateral jumps)
-    const up = new THREE.Vector3().subVectors(here, new THREE.Vector3().copy(planet.mesh.getWorldPosition(new THREE.Vector3()))).normalize()
-    const tangentScore = 1 - Math.abs(dirTo.dot(up))
-    const score = (tangentScore * 20) / dist
+function makeNameTag(text: string): THREE.Sprite {
+  const canvas = document.createElement('canvas')
+  canvas.width = 256
+  canvas.height = 64
+  const ctx = canvas.getContext('2d')!
+  ctx.font = 'bold 30px ui-sans-serif, system-ui, sans-serif'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  const w = Math.min(248, ctx.measureText(text).width + 28)
+  ctx.fillStyle = 'rgba(13,18,38,0.75)'
+  ctx.beginPath(); ctx.roundRect((256 - w) / 2, 8, w, 48, 20); ctx.fill()
+  ctx.fillStyle = '#e8eeff'
+  ctx.fillText(text, 128, 33, 232)
+  const tex = new THREE.CanvasTexture(canvas)
+  tex.colorSpace = THREE.SRGBColorSpace
+  const tag = new THREE.Sprite(new THREE.SpriteMaterial({ map: tex, transparent: true, depthWrite: false }))
+  tag.scale.set(4, 1, 1)
+  tag.renderOrder = 3
+  return tag
+}
 
-    if (score > bestScore) { bestScore = score; best = p }
+// Local input: WASD / arrows to walk and turn, Space to leap, E to adopt the critter nearest the view
+const keysDown = new Set<string>()
+let localLeap = false
+let localAdopt = false
+window.addEventListener('keydown', (e) => {
+  if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+  keysDown.add(e.code)
+  if (e.repeat) return
+  if (e.code === 'Space') localLeap = true
+  if (e.code === 'KeyE') localAdopt = true
+})
+window.addEventListener('keyup', (e) => keysDown.delete(e.code))
+window.addEventListener('blur', () => keysDown.clear())
+
+const gamepadDeadzone = 0.15
+const gamepadPressed = { leap: false, adopt: false }
+function readLocalInput(): LocalInput {
+  const key = (...codes: string[]) => codes.some(c => keysDown.has(c)) ? 1 : 0
+  let forward = key('KeyW', 'ArrowUp') - key('KeyS', 'ArrowDown')
+  let turn = key('KeyD', 'ArrowRight') - key('KeyA', 'ArrowLeft')
+
+  const pad = navigator.getGamepads ? navigator.getGamepads().find(g => g) : null
+  if (pad) {
+    const dz = (v: number) => Math.abs(v) < gamepadDeadzone ? 0 : v
+    forward = THREE.MathUtils.clamp(forward - dz(pad.axes[1] || 0), -1, 1)
+    turn = THREE.MathUtils.clamp(turn + dz(pad.axes[0] || 0), -1, 1)
+    // A / cross to leap, X / square to adopt; trigger on press, not while held
+    const leapDown = !!pad.buttons[0]?.pressed
+    const adoptDown = !!pad.buttons[2]?.pressed
+    if (leapDown && !gamepadPressed.leap) localLeap = true
+    if (adoptDown && !gamepadPressed.adopt) localAdopt = true
+    gamepadPressed.leap = leapDown
+    gamepadPressed.adopt = adoptDown
   }
 
-  if (best && bestScore > 0.01) {
-    const target = new THREE.Vector3(); best.mesh.getWorldPosition(target)
-    const dir = new THREE.Vector3().subVectors(target, here).normalize()
-    const tangentDir = dir.add(new THREE.Vector3().randomDirection().multiplyScalar(0.3)).normalize()
+  const input = { forward, turn, leap: localLeap, adopt: localAdopt }
+  localLeap = false
+  localAdopt = false
+  return input
+}
 
-    critter.velocity.copy(tangentDir).multiplyScalar(params.leapImpulse)
-    critter.state = 'leaping'
-    critter.targetPlanet = best
+// Fold this frame's local input into the avatar controls (host/solo) or send it to the host (client)
+function pumpLocalInput() {
+  const input = readLocalInput()
+  if (mpRole === 'client') {
+    pendingInput.forward = input.forward
+    pendingInput.turn = input.turn
+    pendingInput.leap = pendingInput.leap || input.leap
+    pendingInput.adopt = pendingInput.adopt || input.adopt
+    return
   }
+  const cur = world.inputs.get(myName)
+  world.inputs.set(myName, {
+    forward: input.forward,
+    turn: input.turn,
+    leap: (cur?.leap || false) || input.leap,
+    adopt: cur?.adopt || (input.adopt ? controls.target.clone() : null),
+  })
 }
 
-// ---------- Animation Loop ----------
+const pendingInput: LocalInput = { forward: 0, turn: 0, leap: false, adopt: false }
+let lastSentInput = ''
+setInterval(() => {
+  if (!peer || mpRole !== 'client') return
+  const msg: Msg = { t: 'input', f: round3(pendingInput.forward), r: round3(pendingInput.turn), leap: pendingInput.leap, adopt: pendingInput.adopt }
+  pendingInput.leap = false
+  pendingInput.adopt = false
+  // Idle sticks don't need a packet every tick
+  const key = JSON.stringify(msg)
+  if (key === lastSentInput && !msg.leap && !msg.adopt) return
+  lastSentInput = key
+  broadcast(msg)
+}, 50)
+
+// ---------- Chat & Emotes ----------
+const chatEl = document.getElementById('chat') as HTMLDivElement | null
+const chatLog = document.getElementById('chatLog') as HTMLDivElement | null
+const chatForm = document.getElementById('chatForm') as HTMLFormElement | null
+const chatInput = document.getElementById('chatInput') as HTMLInputElement | null
+const chatHistoryLimit = 50
+const mutedPlayers = new Set<string>()
+const emoteColors: Record<Emote, number> = { heart: 0xff7aa2, wave: 0x9cc3ff, laugh: 0xffe08a }
+const emoteGlyphs: Record<Emote, string> = { heart: '💖', wave: '👋', laugh: '😂' }
+
+function showChat() {
+  if (chatEl) chatEl.hidden = false
+}
+
+function sendChat(text: string) {
+  const clean = text.trim().slice(0, maxChatLength)
+  if (!clean) return
+  broadcast({ t: 'chat', text: clean, from: myName })
+  receiveChat(myName, clean)
+}
+
+function sendEmote(e: Emote) {
+  broadcast({ t: 'emote', e, from: myName })
+  receiveEmote(myName, e)
+}
+
+function receiveChat(from: string, text: string) {
+  if (mutedPlayers.has(from)) return
+  appendChatLine(from, text)
+}
+
+function receiveEmote(from: string, e: Emote) {
+  if (mutedPlayers.has(from)) return
+  appendChatLine(from, emoteGlyphs[e])
+  const at = playerPosition(from)
+  if (at) spawnHearts(at, emoteColors[e])
+}
+
+// Where a player "is": their avatar critter, else their camera presence
+function playerPosition(name: string): THREE.Vector3 | null {
+  const avatar = world.critters.find(c => c.owner === name)
+  const view = avatar && critterViews.get(avatar)
+  if (view) return view.position.clone()
+  if (name === myName) return controls.target.clone()
+  const cur = remoteCursors.find(r => r.name === name)
+  return cur ? cur.mesh.position.clone() : null
+}
+
+function appendChatLine(from: string, text: string) {
+  if (!chatLog) return
+  const line = document.createElement('div')
+  const who = document.createElement('b')
+  who.textContent = from
+  if (from !== myName) {
+    who.className = 'chat-name'
+    who.title = 'Click to mute'
+    who.onclick = () => toggleMute(from)
+  }
+  line.append(who, `: ${text}`)
+  chatLog.appendChild(line)
+  while (chatLog.childElementCount > chatHistoryLimit) chatLog.firstElementChild!.remove()
+  chatLog.scrollTop = chatLog.scrollHeight
+}
+
+function toggleMute(name: string) {
+  const muted = !mutedPlayers.has(name)
+  if (muted) mutedPlayers.add(name)
+  else mutedPlayers.delete(name)
+  appendSystemLine(muted ? `Muted ${name} (click their name again to unmute)` : `Unmuted ${name}`)
+}
+
+function appendSystemLine(text: string) {
+  if (!chatLog) return
+  const line = document.createElement('div')
+  line.className = 'chat-system'
+  line.textContent = text
+  chatLog.appendChild(line)
+  chatLog.scrollTop = chatLog.scrollHeight
+}
+
+chatForm?.addEventListener('submit', (e) => {
+  e.preventDefault()
+  if (!chatInput) return
+  sendChat(chatInput.value)
+  chatInput.value = ''
+  chatInput.blur()
+})
+chatEl?.querySelectorAll<HTMLButtonElement>('[data-emote]').forEach(btn => {
+  const e = emotes.find(x => x === btn.dataset.emote)
+  if (e) btn.onclick = () => sendEmote(e)
+})
+// Enter opens the chat box, 1/2/3 fire emotes (ignored while typing anywhere)
+window.addEventListener('keydown', (e) => {
+  if (!chatEl || chatEl.hidden) return
+  if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+  if (e.code === 'Enter') {
+    e.preventDefault()
+    chatInput?.focus()
+  } else if (e.code === 'Digit1' || e.code === 'Digit2' || e.code === 'Digit3') {
+    sendEmote(emotes[Number(e.code.slice(-1)) - 1])
+  }
+})
+
+// ---------- Simulation Loop ----------
+// The world (sim.ts) advances in fixed steps so leap arcs don't depend on the monitor's refresh
+// rate; the scene shows a blend of the last two simulated states.
 const clock = new THREE.Clock()
-let tOrbit = 0
+const simStep = 1 / 60 // seconds of simulated time per step
+const maxStepsPerFrame = 8 // after a long stall, drop time rather than spiral
+const maxFrameDelta = 0.25
+let simAccumulator = 0
+
+// Pose of every simulated body as of the previous step, keyed by the sim object
+interface PrevPose { pos: THREE.Vector3; quat: THREE.Quaternion; spin: number }
+const prevPoses = new WeakMap<object, PrevPose>()
+
+function rememberPose(key: object, pos: THREE.Vector3, quat?: THREE.Quaternion, spin = 0) {
+  const prev = prevPoses.get(key)
+  if (!prev) {
+    prevPoses.set(key, { pos: pos.clone(), quat: quat ? quat.clone() : new THREE.Quaternion(), spin })
+    return
+  }
+  prev.pos.copy(pos)
+  if (quat) prev.quat.copy(quat)
+  prev.spin = spin
+}
+
+function capturePrevPoses() {
+  for (const p of world.planets) rememberPose(p, p.position, undefined, p.spin)
+  for (const m of world.moons) rememberPose(m, m.position)
+  for (const c of world.critters) rememberPose(c, c.position, c.quaternion)
+}
+
+// Draw the world alpha of the way from the previous step to the current one
+function syncViews(alpha: number, delta: number) {
+  for (const v of planetViews) {
+    const p = v.planet
+    const prev = prevPoses.get(p)
+    v.mesh.position.lerpVectors(prev ? prev.pos : p.position, p.position, alpha)
+    v.mesh.rotation.y = prev ? THREE.MathUtils.lerp(prev.spin, p.spin, alpha) : p.spin
+    updateFruit(v)
+  }
+  for (const v of moonViews) {
+    const prev = prevPoses.get(v.moon)
+    v.mesh.position.lerpVectors(prev ? prev.pos : v.moon.position, v.moon.position, alpha)
+  }
+
+  const alive = new Set(world.critters)
+  for (const v of critterViews.values()) {
+    if (!alive.has(v.critter)) removeCritterView(v)
+  }
+  beginCrowd(crowd, delta)
+  for (const c of world.critters) {
+    const v = critterViews.get(c) || createCritterView(c)
+    const prev = prevPoses.get(c)
+    v.position.lerpVectors(prev ? prev.pos : c.position, c.position, alpha)
+    v.quaternion.slerpQuaternions(prev ? prev.quat : c.quaternion, c.quaternion, alpha)
+    if (v.tagOwner !== c.owner) setNameTag(v, c.owner)
+    if (v.nameTag) v.nameTag.position.set(0, 2.6 * c.sizeScale, 0).applyQuaternion(v.quaternion).add(v.position)
+    setDetailed(v, c === followCritter)
+    if (!v.rig) {
+      placeInCrowd(crowd, v.crowd, c, v.position, v.quaternion, delta)
+      continue
+    }
+    v.rig.body.position.copy(v.position)
+    v.rig.body.quaternion.copy(v.quaternion)
+    const ground = planetViews.find(pv => pv.planet === c.homePlanet)
+    if (ground) poseCritterRig(v.rig, c, ground.mesh.position, direction => surfaceRadius(world, c.homePlanet, direction), delta)
+  }
+  finishCrowd(crowd)
+  updateCityLights()
+}
+
+function drainSimEvents() {
+  for (const e of world.events) {
+    if (e.type === 'landed') spawnLandingHearts(e.critter.position.clone(), e.impact)
+    else if (e.type === 'met') spawnHearts(e.critter.position.clone())
+    else if (e.type === 'born') spawnHearts(e.critter.position.clone(), 0xffd27a)
+  }
+  world.events.length = 0
+}
+
+// ---------- Critter inspector ----------
+// The followed critter's vitals, plus a few ways to meddle. Only the host simulates, so clients see
+// what the snapshots carry and leave the buttons to the host.
+const inspectorEl = document.getElementById('inspector') as HTMLDivElement | null
+const inspectorName = document.getElementById('inspectorName') as HTMLElement | null
+const inspectorFields = document.getElementById('inspectorFields') as HTMLDListElement | null
+const inspectorPlanet = document.getElementById('inspectorPlanet') as HTMLSelectElement | null
+const inspectorStatus = document.getElementById('inspectorStatus') as HTMLDivElement | null
+const inspectorInterval = 0.25 // seconds between refreshes
+let inspectorTimer = 0
+
+function openInspector(critter: Critter) {
+  followCritter = critter
+  setInspectorStatus('')
+  inspectorTimer = 0
+  if (inspectorEl) inspectorEl.hidden = false
+}
+
+function closeInspector() {
+  followCritter = null
+  if (inspectorEl) inspectorEl.hidden = true
+}
 
+function setInspectorStatus(text: string) {
+  if (inspectorStatus) inspectorStatus.textContent = text
+}
+
+function updateInspector(deltaReal: number) {
+  if (!inspectorEl || !inspectorFields) return
+  const c = followCritter
+  // Gone (old age, a new world, the host dropped it): stop following and leave the camera be
+  if (!c || !world.critters.includes(c)) {
+    if (c || !inspectorEl.hidden) closeInspector()
+    return
+  }
+  inspectorTimer -= deltaReal
+  if (inspectorTimer > 0) return
+  inspectorTimer = inspectorInterval
+
+  const hosting = mpRole !== 'client'
+  if (inspectorName) inspectorName.textContent = c.name
+  const rows: [string, string][] = [
+    ['Body', `${c.bodyType}, size ${c.sizeScale.toFixed(2)}`],
+    ['State', c.stunned > 0 ? `${c.state} · dazed` : hosting && c.state === 'grounded' && !c.owner ? `${c.state} · ${c.behaviour}` : c.state],
+    ['Home', c.targetPlanet && c.state !== 'grounded' ? `${c.homePlanet.name} → ${c.targetPlanet.name}` : c.homePlanet.name],
+  ]
+  if (c.owner) rows.push(['Player', c.owner])
+  if (hosting) {
+    const friends = Object.entries(c.likes).filter(([, v]) => v > 0).sort((a, b) => b[1] - a[1]).slice(0, 3)
+    rows.push(
+      ['Excitement', `${Math.round(c.excitement * 100)}%`],
+      ['Leaps', `${c.leapHits} landed, ${c.leapMisses} missed`],
+      ['Friends', friends.length ? friends.map(([name, v]) => `${name} ${Math.round(v * 100)}%`).join(', ') : 'none yet'],
+    )
+    if (c.destination) rows.push(['Sent to', `${c.destination.name} (leaps when it's in reach)`])
+    if (c.socialTarget) rows.push(['Seeking', c.socialTarget.name])
+    if (c.parents.length) rows.push(['Parents', c.parents.join(' & ')])
+    rows.push(['Age', `${Math.floor(c.age / 60)} min (gen ${c.generation})`])
+  }
+  inspectorFields.replaceChildren(...rows.flatMap(([k, v]) => {
+    const dt = document.createElement('dt')
+    const dd = document.createElement('dd')
+    dt.textContent = k
+    dd.textContent = v
+    return [dt, dd]
+  }))
+
+  // Avatars go where their players steer them
+  const steerable = hosting && !c.owner
+  inspectorEl.querySelectorAll<HTMLElement>('.inspector-actions').forEach(el => { el.hidden = !hosting })
+  inspectorEl.querySelectorAll<HTMLButtonElement>('#inspectorLeap, #inspectorSend').forEach(b => { b.disabled = !steerable || c.state !== 'grounded' })
+  const choices = world.planets.filter(p => p !== c.homePlanet).map(p => p.name)
+  if (inspectorPlanet && [...inspectorPlanet.options].map(o => o.value).join('\n') !== choices.join('\n')) {
+    const chosen = inspectorPlanet.value
+    inspectorPlanet.replaceChildren(...choices.map(name => new Option(name, name, false, name === chosen)))
+  }
+}
+
+function inspectorLeap() {
+  const c = followCritter
+  if (!c) return
+  const target = leapNow(world, c)
+  setInspectorStatus(target ? `Leaping for ${target.name}` : 'Nothing in reach, so just a hop')
+}
+
+function inspectorSend() {
+  const c = followCritter
+  const target = findPlanet(world, inspectorPlanet?.value ?? null)
+  if (!c || !target) return
+  sendCritterTo(c, target)
+  setInspectorStatus('')
+  inspectorTimer = 0
+}
+
+function inspectorRename() {
+  const c = followCritter
+  if (!c) return
+  const name = prompt(`New name for ${c.name}`, c.name)?.trim().slice(0, maxNameLength)
+  if (!name || name === c.name) return
+  if (!renameCritter(world, c, name)) return setInspectorStatus(`There's already a critter called ${name}`)
+  renamedAt.set(c, world.time)
+  inspectorTimer = 0
+}
+
+document.getElementById('inspectorClose')?.addEventListener('click', closeInspector)
+document.getElementById('inspectorLeap')?.addEventListener('click', inspectorLeap)
+document.getElementById('inspectorSend')?.addEventListener('click', inspectorSend)
+document.getElementById('inspectorRename')?.addEventListener('click', inspectorRename)
+
+// ---------- Leap arc preview ----------
+// A dotted line along the sim's own prediction: the leap your critter would make if you pressed
+// Space, or the rest of the one it (or the critter you follow) is on. Brighter when it comes down
+// on another planet.
+const viewOptions = { leapArc: true, cityLights: true }
+const viewFolder = gui.addFolder('View')
+viewFolder.add(viewOptions, 'leapArc').name('Leap arc preview')
+
+const leapArcMaxDots = 120
+const leapArcInterval = 0.1 // seconds between predictions
+const leapArc = new THREE.Points(
+  new THREE.BufferGeometry().setAttribute('position', new THREE.BufferAttribute(new Float32Array(leapArcMaxDots * 3), 3)),
+  new THREE.PointsMaterial({ size: 0.45, color: 0xffffff, transparent: true, opacity: 0.85, depthWrite: false })
+)
+leapArc.frustumCulled = false
+scene.add(leapArc)
+let leapArcTimer = 0
+
+function updateLeapArc(deltaReal: number) {
+  // A followed critter's leap in progress, otherwise the one yours would make
+  const critter = followCritter && followCritter.state !== 'grounded' ? followCritter : world.critters.find(c => c.owner === myName)
+  leapArc.visible = viewOptions.leapArc && !!critter
+  if (!critter || !leapArc.visible) return
+  leapArcTimer -= deltaReal
+  if (leapArcTimer > 0) return
+  leapArcTimer = leapArcInterval
+
+  const from = findNearestPlanet(world, critter.position).planet
+  const velocity = critter.state === 'grounded' ? avatarLeapVelocity(world, critter, from) : critter.velocity
+  const path = predictTrajectory(world, critter.position, velocity, critter.surfaceOffset)
+  const attr = leapArc.geometry.getAttribute('position') as THREE.BufferAttribute
+  // Every other predicted point, so the line reads as dots
+  let n = 0
+  for (let i = 1; i < path.points.length && n < leapArcMaxDots; i += 2) attr.setXYZ(n++, path.points[i].x, path.points[i].y, path.points[i].z)
+  attr.needsUpdate = true
+  leapArc.geometry.setDrawRange(0, n)
+  ;(leapArc.material as THREE.PointsMaterial).color.set(path.landed && path.landed !== critter.homePlanet ? 0x9dffb0 : 0xc8d0ff)
+}
+
+// ---------- City lights ----------
+// After dark every critter on the ground shows a small warm light. Where they gather, the lights
+// overlap into a glow bright enough to bloom, like towns seen from orbit.
+viewFolder.add(viewOptions, 'cityLights').name('City lights')
+
+const cityLightColor = new THREE.Color(0xffb865)
+const cityLights = new THREE.Points(
+  new THREE.BufferGeometry(),
+  new THREE.PointsMaterial({ size: 0.7, vertexColors: true, transparent: true, blending: THREE.AdditiveBlending, depthWrite: false })
+)
+cityLights.frustumCulled = false
+scene.add(cityLights)
+let cityLightCapacity = 0
+const _lightUp = new THREE.Vector3()
+const _lightSun = new THREE.Vector3()
+
+function updateCityLights() {
+  cityLights.visible = viewOptions.cityLights
+  if (!cityLights.visible) return
+  const geometry = cityLights.geometry
+  if (cityLightCapacity < world.critters.length) {
+    cityLightCapacity = Math.max(64, cityLightCapacity * 2, world.critters.length)
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(cityLightCapacity * 3), 3).setUsage(THREE.DynamicDrawUsage))
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(cityLightCapacity * 3), 3).setUsage(THREE.DynamicDrawUsage))
+  }
+  const positions = geometry.getAttribute('position') as THREE.BufferAttribute
+  const colors = geometry.getAttribute('color') as THREE.BufferAttribute
+  let n = 0
+  for (const c of world.critters) {
+    const v = critterViews.get(c)
+    const pv = c.state === 'grounded' && planetViews.find(p => p.planet === c.homePlanet)
+    if (!v || !pv) continue
+    // Lit from a little past the terminator, full once the sun is well down
+    const center = pv.mesh.position
+    _lightUp.subVectors(v.position, center).normalize()
+    const night = THREE.MathUtils.smoothstep(-_lightUp.dot(_lightSun.subVectors(sun.position, center).normalize()), 0.05, 0.3)
+    if (night <= 0) continue
+    positions.setXYZ(n, v.position.x + _lightUp.x * 0.3, v.position.y + _lightUp.y * 0.3, v.position.z + _lightUp.z * 0.3)
+    colors.setXYZ(n, cityLightColor.r * night, cityLightColor.g * night, cityLightColor.b * night)
+    n++
+  }
+  positions.needsUpdate = true
+  colors.needsUpdate = true
+  geometry.setDrawRange(0, n)
+}
+
+// ---------- Animation Loop ----------
 function animate() {
   requestAnimationFrame(animate)
-  const deltaReal = clock.getDelta()
+  const deltaReal = Math.min(clock.getDelta(), maxFrameDelta)
   const delta = deltaReal * params.timeScale
-  tOrbit += delta
-
-  // Move planets along simple elliptical programmed orbits for stability
-  planets.forEach((p, i) => {
-    const e = params.orbitEccentricity
-    const a = p.orbitalRadius
-    const b = a * (1 - e)
-    const angle = tOrbit * p.orbitalSpeed + i * 0.6
-    const x = a * Math.cos(angle)
-    const z = b * Math.sin(angle)
-    p.mesh.position.set(x, 0, z)
-
-    p.pivot.rotation.y += 0.0 // pivot reserved
-    p.mesh.rotation.y += p.rotationSpeed * delta
-  })
 
-  // If following a planet, only lock the controls target to it; preserve user distance/orientation/scale
-  if (followPlanet) {
-    const target = new THREE.Vector3(); followPlanet.mesh.getWorldPosition(target)
+  pumpLocalInput()
+
+  if (mpRole === 'client') {
+    // Clients don't simulate: planets run on the host's clock, at the same delayed time as the
+    // critter snapshots they render
+    const snapshot = sampleSnapshots()
+    if (snapshot) world.time = THREE.MathUtils.lerp(snapshot.from.orbit, snapshot.to.orbit, snapshot.alpha) + snapshot.extrapolate * params.timeScale
+    else world.time += delta
+    updateOrbits(world, delta)
+    if (snapshot) {
+      applyBodySnapshots(snapshot)
+      applyCritterSnapshots(snapshot, delta)
+    }
+    syncViews(1, delta)
+  } else {
+    simAccumulator += delta
+    let steps = 0
+    while (simAccumulator >= simStep && steps < maxStepsPerFrame) {
+      capturePrevPoses()
+      stepWorld(world, simStep)
+      simAccumulator -= simStep
+      steps++
+    }
+    if (steps === maxStepsPerFrame) simAccumulator = 0
+    drainSimEvents()
+    syncViews(simAccumulator / simStep, delta)
+  }
+  updateLeapArc(deltaReal)
+
+  // If following a planet or critter, only lock the controls target to it; preserve user distance/orientation/scale
+  updateInspector(deltaReal)
+  const target = followTarget()
+  if (target) {
     controls.target.lerp(target, 0.25)
     if (followOffset) {
       const desiredPos = target.clone().add(followOffset)
@@ -917,39 +2017,9 @@ function animate() {
     }
   }
 
-  // Critter physics
-  for (const c of critters) {
-    const nearest = findNearestPlanet(c.body.position)
-
-    if (c.state === 'grounded') {
-      stickToPlanetSurface(c, nearest.planet, delta)
-      wanderOnSurface(c, nearest.planet, delta)
-      maybeLeapBetweenPlanets(c)
-    } else {
-      // Leaping / space flight under combined gravity
-      const g = getCombinedGravityAtPoint(c.body.position)
-      c.velocity.addScaledVector(g, delta)
-      // Add space drag so they arc and settle
-      c.velocity.multiplyScalar(1 - params.spaceDrag)
-      c.body.position.addScaledVector(c.velocity, delta)
-
-      // Ground collision detection with nearest planet
-      const pw = new THREE.Vector3(); nearest.planet.mesh.getWorldPosition(pw)
-      const distToSurface = c.body.position.distanceTo(pw) - (nearest.planet.radius + c.surfaceOffset * 0.6)
-      if (distToSurface <= 0 && c.velocity.dot(new THREE.Vector3().subVectors(c.body.position, pw)) > 0) {
-        c.state = 'grounded'
-        c.homePlanet = nearest.planet
-        c.targetPlanet = null
-        c.velocity.set(0, 0, 0)
-        stickToPlanetSurface(c, nearest.planet, delta)
-        spawnHearts(c.body.position.clone())
-      }
-    }
-  }
-
   // Subtle star twinkle and slow rotation
   stars.rotation.y += 0.005 * delta
-  ;(stars.material as THREE.PointsMaterial).opacity = 0.9 + 0.1 * Math.sin(tOrbit * 0.7)
+  ;(stars.material as THREE.PointsMaterial).opacity = 0.9 + 0.1 * Math.sin(world.time * 0.7)
 
   // Keep sunglasses on the sun, easing toward facing the camera
   const toCamera = new THREE.Vector3().subVectors(camera.position, sun.position).normalize()
@@ -959,7 +2029,7 @@ function animate() {
   const desiredQuat = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().lookAt(sunglasses.position, camera.position, new THREE.Vector3(0,1,0)))
   sunglasses.quaternion.slerp(desiredQuat, Math.min(1, 2.0 * delta))
 
-  // Sun random smile logic and brightness pulse
+  // Sun random smile logic and brightness pulse (purely cosmetic, so unseeded)
   sunSmileCooldown -= delta
   if (!sunSmileActive && sunSmileCooldown <= 0 && Math.random() < 0.02) {
     sunSmileActive = true
@@ -983,24 +2053,15 @@ function animate() {
   sunLight.intensity += (sunLightTargetIntensity - sunLight.intensity) * Math.min(1, 3.0 * delta)
   sunGlow.scale.lerp(new THREE.Vector3(1,1,1).multiplyScalar(sunGlowTargetScale), Math.min(1, 3.0 * delta))
 
-  // Animate moons in local orbits
-  for (const m of moons) {
-    m.angle += (m.speed * delta) / 6
-    const pw = new THREE.Vector3(); m.planet.mesh.getWorldPosition(pw)
-    const x = m.orbitRadius * Math.cos(m.angle)
-    const z = m.orbitRadius * Math.sin(m.angle)
-    const pos = new THREE.Vector3(x, 0, z)
-    // tilt around X
-    pos.applyAxisAngle(new THREE.Vector3(1, 0, 0), m.tilt)
-    m.mesh.position.copy(pw).add(pos)
-  }
-
+  controls.minDistance = followCritter ? critterMinDistance : orbitMinDistance
   controls.update()
+  updateDetail()
+  buildSurfaces()
+  camera.updateMatrixWorld()
+  updateSkyLight(skyLight, sun.position, camera)
   composer.render()
 }
 
-animate()
-
 // ---------- Resize ----------
 // Postprocessing: bloom
 const composer = new EffectComposer(renderer)
@@ -1028,13 +2089,13 @@ function spawnFireflies(count = 300) {
   const positions = new Float32Array(count * 3)
   const colors = new Float32Array(count * 3)
   for (let i = 0; i < count; i++) {
-    const p = planets[Math.floor(Math.random() * planets.length)]
-    const base = p.mesh.position.clone()
-    const dir = new THREE.Vector3().randomDirection()
-    const r = THREE.MathUtils.randFloat(p.radius + 2, p.radius + 10)
+    const p = world.planets[Math.floor(seededRandom() * world.planets.length)]
+    const base = p.position.clone()
+    const dir = randomDirection(seededRandom)
+    const r = THREE.MathUtils.lerp(p.radius + 2, p.radius + 10, seededRandom())
     const pos = base.addScaledVector(dir, r)
     positions.set([pos.x, pos.y, pos.z], i * 3)
-    const c = new THREE.Color().setHSL(Math.random(), 0.8, 0.6)
+    const c = new THREE.Color().setHSL(seededRandom(), 0.8, 0.6)
     colors.set([c.r, c.g, c.b], i * 3)
   }
   geom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
@@ -1042,12 +2103,20 @@ function spawnFireflies(count = 300) {
   const pts = new THREE.Points(geom, new THREE.PointsMaterial({ size: 0.9, transparent: true, opacity: 0.9, vertexColors: true, blending: THREE.AdditiveBlending, depthWrite: false }))
   fireflyGroup.add(pts)
 }
-spawnFireflies(600)
+// Surfaces, trees and fireflies for the starting seed, through the same path reseeds and loads take
+// so a shared world looks the same for everyone
+regenerateWorld()
 
-// Reseed world deterministically (stars, planet surfaces, trees, fireflies)
+// Reseed world deterministically: a new system generated from the seed (keeping the current
+// tuning), plus stars, planet surfaces, trees and fireflies
 function reseedWorld(seed: string) {
-  worldSeed = seed
-  seededRandom = mulberry32(hashStringToInt32(seed))
+  reseed(world, seed)
+  applySystem({ ...generateSystem(seed), params: { ...params } })
+}
+
+// Redraw everything generated from world.seed, without touching the simulation's own stream
+function regenerateWorld() {
+  seededRandom = mulberry32(hashStringToInt32(world.seed))
   // Recreate noise with seeded RNG
   const rnd = () => seededRandom()
   noise3D = createNoise3D(rnd)
@@ -1061,7 +2130,7 @@ function reseedWorld(seed: string) {
     starPositions[i * 3 + 1] = r * Math.cos(phi)
     starPositions[i * 3 + 2] = r * Math.sin(phi) * Math.sin(theta)
 
-    const T = sampleStarTemperature()
+    const T = sampleStarTemperature(seededRandom)
     const bb = kelvinToRGB(T)
     const brightness = THREE.MathUtils.clamp(Math.pow(T / 6000, 4) * 0.85, 0.25, 2.2)
     bb.multiplyScalar(brightness)
@@ -1073,30 +2142,10 @@ function reseedWorld(seed: string) {
   ;(starGeo.attributes.color as THREE.BufferAttribute).needsUpdate = true
 
   // Update planets: surface perturbation colors + trees
-  const temp = new THREE.Vector3()
-  for (const p of planets) {
-    const geom = p.mesh.geometry as THREE.SphereGeometry
-    const positions = geom.attributes.position as THREE.BufferAttribute
-    const colors = geom.attributes.color as THREE.BufferAttribute
-    const base = new THREE.Color(p.color)
-    const hsl = { h: 0, s: 0, l: 0 }
-    base.getHSL(hsl)
-    for (let i = 0; i < positions.count; i++) {
-      temp.fromBufferAttribute(positions, i).normalize()
-      const n = noise3D(temp.x * 1.5, temp.y * 1.5, temp.z * 1.5)
-      const scale = 1 + n * 0.05
-      positions.setXYZ(i, temp.x * p.radius * scale, temp.y * p.radius * scale, temp.z * p.radius * scale)
-      const altitude = (n + 1) * 0.5
-      const c = new THREE.Color().setHSL(
-        (hsl.h + THREE.MathUtils.mapLinear(altitude, 0, 1, -0.02, 0.02) + 1) % 1,
-        THREE.MathUtils.clamp(hsl.s + THREE.MathUtils.mapLinear(altitude, 0, 1, 0.1, -0.05), 0, 1),
-        THREE.MathUtils.clamp(hsl.l + THREE.MathUtils.mapLinear(altitude, 0, 1, -0.1, 0.18), 0, 1)
-      )
-      colors.setXYZ(i, c.r, c.g, c.b)
-    }
-    positions.needsUpdate = true
-    colors.needsUpdate = true
-    generateTreesForPlanet(p)
+  for (const view of planetViews) {
+    disposeSurfaces(view)
+    setSurfaceDetail(view, view.detail)
+    generateTreesForPlanet(view)
   }
 
   // Respawn fireflies
@@ -1104,9 +2153,8 @@ function reseedWorld(seed: string) {
   spawnFireflies(600)
 }
 
-// Heart burst when critter lands after a leap
-function spawnHearts(at: THREE.Vector3) {
-  const count = 10
+// Heart burst when critter lands after a leap (tinted per emote for chat emotes)
+function spawnHearts(at: THREE.Vector3, color = 0xff7aa2, count = 10) {
   const geom = new THREE.BufferGeometry()
   const positions = new Float32Array(count * 3)
   for (let i = 0; i < count; i++) {
@@ -1115,10 +2163,19 @@ function spawnHearts(at: THREE.Vector3) {
     positions.set([pos.x, pos.y, pos.z], i * 3)
   }
   geom.setAttribute('position', new THREE.BufferAttribute(positions, 3))
-  const mat = new THREE.PointsMaterial({ size: 1.6, color: 0xff7aa2, transparent: true, opacity: 0.95, blending: THREE.AdditiveBlending, depthWrite: false })
+  const mat = new THREE.PointsMaterial({ size: 1.6, color, transparent: true, opacity: 0.95, blending: THREE.AdditiveBlending, depthWrite: false })
   const pts = new THREE.Points(geom, mat)
   scene.add(pts)
-  setTimeout(() => scene.remove(pts), 800)
+  setTimeout(() => {
+    scene.remove(pts)
+    geom.dispose()
+    mat.dispose()
+  }, 800)
+}
+
+// The gentler the landing, the bigger the burst
+function spawnLandingHearts(at: THREE.Vector3, impact: number) {
+  spawnHearts(at, undefined, Math.round(THREE.MathUtils.clamp(14 - 1.2 * (impact - gentleLanding), 3, 14)))
 }
 
 window.addEventListener('resize', () => {
@@ -1128,3 +2185,6 @@ window.addEventListener('resize', () => {
   composer.setSize(container.clientWidth, container.clientHeight)
   bloomPass.setSize(container.clientWidth, container.clientHeight)
 })
+
+// Start once everything above (composer included) exists
+animate()
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { checkHello, maxChatLength, parseMsg, PROTOCOL_VERSION, uniquePlayerName } from './protocol'
+import { maxCritters, maxNameLength } from './sim'
+
+const snapshot = (n: string) => ({ n, p: [0, 0, 0], q: [0, 0, 0, 1], s: 'grounded', h: 'Aurelia', tp: null, v: [0, 0, 0], pl: null })
+
+describe('parseMsg', () => {
+  it('accepts well-formed messages', () => {
+    expect(parseMsg({ t: 'hello', v: PROTOCOL_VERSION, name: 'Pip' })).not.toBeNull()
+    expect(parseMsg({ t: 'chat', text: 'hi' })).not.toBeNull()
+    expect(parseMsg({ t: 'critters', o: 1.5, c: [snapshot('Pip'), snapshot('Mochi')] })).not.toBeNull()
+    // Between keyframes, fields that haven't changed are left out
+    expect(parseMsg({ t: 'critters', o: 1.6, c: [{ n: 'Pip', p: [0, 0, 0], q: [0, 0, 0, 1] }] })).not.toBeNull()
+  })
+
+  it('rejects anything else', () => {
+    expect(parseMsg(null)).toBeNull()
+    expect(parseMsg('hello')).toBeNull()
+    expect(parseMsg([{ t: 'chat', text: 'hi' }])).toBeNull()
+    expect(parseMsg({ text: 'hi' })).toBeNull()
+    expect(parseMsg({ t: 'toString' })).toBeNull()
+    expect(parseMsg({ t: 'nonsense' })).toBeNull()
+    expect(parseMsg({ t: 'hello', v: '10', name: 'Pip' })).toBeNull()
+    expect(parseMsg({ t: 'input', f: NaN, r: 0, leap: false, adopt: false })).toBeNull()
+    expect(parseMsg({ t: 'chat', text: 'x'.repeat(maxChatLength + 1) })).toBeNull()
+    expect(parseMsg({ t: 'emote', e: 'shrug' })).toBeNull()
+    expect(parseMsg({ t: 'critters', o: 0, c: [{ ...snapshot('Pip'), s: 'flying' }] })).toBeNull()
+    expect(parseMsg({ t: 'critters', o: 0, c: [{ ...snapshot('Pip'), g: null }] })).toBeNull()
+    expect(parseMsg({ t: 'critters', o: 0, c: Array.from({ length: maxCritters + 1 }, (_, i) => snapshot(`C${i}`)) })).toBeNull()
+  })
+})
+
+describe('checkHello', () => {
+  it('turns away other versions and nameless players', () => {
+    expect(checkHello({ t: 'hello', v: PROTOCOL_VERSION, name: 'Pip' })).toBeNull()
+    expect(checkHello({ t: 'hello', v: PROTOCOL_VERSION - 1, name: 'Pip' })).toMatch(/version/)
+    expect(checkHello({ t: 'hello', v: PROTOCOL_VERSION, name: '   ' })).toMatch(/name/)
+  })
+})
+
+describe('uniquePlayerName', () => {
+  it('numbers a name somebody already has, within the name length', () => {
+    const room = new Set(['Pip', 'Pip 2'])
+    expect(uniquePlayerName('Mochi', n => room.has(n))).toBe('Mochi')
+    expect(uniquePlayerName('Pip', n => room.has(n))).toBe('Pip 3')
+    const long = 'x'.repeat(maxNameLength)
+    expect(uniquePlayerName(long, n => n === long).length).toBeLessThanOrEqual(maxNameLength)
+  })
+})
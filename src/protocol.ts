@@ -0,0 +1,157 @@
+import { arrayOf, isBool, isNum, isObject, isStr, nullable, oneOf, optional, shape, tuple, type Check } from './schema'
+import { isSimParams, isWorldSave, type WorldSave } from './save'
+import { maxCritters, maxMoons, maxNameLength, maxPlanets, maxSeedLength, maxTrees, type CritterState, type SimParams } from './sim'
+
+// ---------- Multiplayer wire protocol ----------
+// Bump PROTOCOL_VERSION whenever a message shape changes, or when peers would grow a different world
+// from the same seed; peers on another version are turned away.
+export const PROTOCOL_VERSION = 13
+
+export type Vec3Tuple = [number, number, number]
+export type QuatTuple = [number, number, number, number]
+export type GenomeTuple = [number, number, number, number, number, number] // legPairs, legLength, size, hue, ears, temperament
+export type Emote = 'heart' | 'wave' | 'laugh'
+export const emotes: Emote[] = ['heart', 'wave', 'laugh']
+
+// s, h, tp and pl change seldom, so the host leaves them out while they match its last snapshot
+// (every snapshot has them for critters new since then, and keyframes have them for everyone)
+export interface CritterSnapshot {
+  n: string // critter name
+  p: Vec3Tuple // world position
+  q: QuatTuple // body orientation
+  s?: CritterState
+  h?: string // home planet name
+  tp?: string | null // target planet name
+  v?: Vec3Tuple // leap velocity, used to extrapolate when snapshots run late; only off the ground
+  pl?: string | null // player steering this critter
+  g?: GenomeTuple // only while newborn; joiners get everyone's genome in the 'world' message
+  st?: number // seconds left dazed, only while stunned after a hard landing
+}
+
+export type Msg =
+  // Handshake. Clients send version + name; the host answers with its own, plus the world preset, params and orbit clock,
+  // and in `you` the name the client goes by in the room (numbered if somebody already had theirs)
+  | { t: 'hello'; v: number; name: string; preset?: string; params?: Record<string, number>; o?: number; you?: string }
+  // Host's world config whenever it changes (GUI tweaks); o is the host orbit clock (tOrbit)
+  | { t: 'config'; preset: string; params: Record<string, number>; o: number }
+  | { t: 'reject'; reason: string }
+  | { t: 'camera'; p: { x: number, y: number, z: number }; g: { x: number, y: number, z: number } }
+  | { t: 'seed'; s: string }
+  // The whole world (planets, critters, clock), sent to joiners and whenever the host loads a save
+  | { t: 'world'; w: WorldSave }
+  // o: host orbit clock (tOrbit); b: planet then moon positions, only while orbits are integrated (N-body);
+  // f: ripe fruit on each planet's trees, about once a second
+  | { t: 'critters'; o: number; c: CritterSnapshot[]; b?: Vec3Tuple[]; f?: number[][] }
+  // Client's avatar controls: f forward, r turn (both -1..1); leap/adopt are one-shot presses
+  | { t: 'input'; f: number; r: number; leap: boolean; adopt: boolean }
+  // Chat and emotes go through the host, which stamps the sender's name before relaying
+  | { t: 'chat'; text: string; from?: string }
+  | { t: 'emote'; e: Emote; from?: string }
+
+export const maxChatLength = 200
+const maxBodies = maxPlanets * (1 + maxMoons) // planets, then moons
+
+// ---------- Runtime schema ----------
+const vec3Obj = shape({ x: isNum, y: isNum, z: isNum })
+
+const critterSnapshot = shape({
+  n: isStr(maxNameLength),
+  p: tuple(3),
+  q: tuple(4),
+  s: optional(oneOf('grounded', 'leaping', 'space')),
+  h: optional(isStr(maxNameLength)),
+  tp: optional(nullable(isStr(maxNameLength))),
+  v: optional(tuple(3)),
+  pl: optional(nullable(isStr(maxNameLength))),
+  g: optional(tuple(6)),
+  st: optional(isNum),
+})
+
+const schemas: Record<Msg['t'], Check> = {
+  hello: shape({ v: isNum, name: isStr(maxNameLength), preset: optional(isStr(maxNameLength)), params: optional(isSimParams), o: optional(isNum), you: optional(isStr(maxNameLength)) }),
+  config: shape({ preset: isStr(maxNameLength), params: isSimParams, o: isNum }),
+  reject: shape({ reason: isStr(256) }),
+  camera: shape({ p: vec3Obj, g: vec3Obj }),
+  seed: shape({ s: isStr(maxSeedLength) }),
+  world: shape({ w: isWorldSave }),
+  critters: shape({ o: isNum, c: arrayOf(critterSnapshot, maxCritters), b: optional(arrayOf(tuple(3), maxBodies)), f: optional(arrayOf(arrayOf(isNum, maxTrees), maxPlanets)) }),
+  input: shape({ f: isNum, r: isNum, leap: isBool, adopt: isBool }),
+  chat: shape({ text: isStr(maxChatLength), from: optional(isStr(maxNameLength)) }),
+  emote: shape({ e: oneOf(...emotes), from: optional(isStr(maxNameLength)) }),
+}
+
+// Returns the message if it matches its schema, otherwise null
+export function parseMsg(data: unknown): Msg | null {
+  if (!isObject(data) || typeof data.t !== 'string') return null
+  if (!Object.prototype.hasOwnProperty.call(schemas, data.t)) return null
+  return schemas[data.t as Msg['t']](data) ? data as Msg : null
+}
+
+// ---------- Handshake ----------
+export type HelloMsg = Extract<Msg, { t: 'hello' }>
+
+// Reason to turn a peer away, or null if its hello is acceptable
+export function checkHello(msg: HelloMsg): string | null {
+  if (msg.v !== PROTOCOL_VERSION) return `Incompatible version: peer speaks protocol v${msg.v}, this game needs v${PROTOCOL_VERSION}. Reload to update.`
+  if (!msg.name.trim()) return 'A player name is required'
+  return null
+}
+
+// `name`, or `name 2`, `name 3`... if somebody in the room already goes by it
+export function uniquePlayerName(name: string, taken: (name: string) => boolean): string {
+  if (!taken(name)) return name
+  for (let i = 2; ; i++) {
+    const candidate = `${name.slice(0, maxNameLength - 4)} ${i}`
+    if (!taken(candidate)) return candidate
+  }
+}
+
+export interface HostInfo {
+  name: string
+  preset: string
+  params: SimParams
+  o: number // orbit clock
+}
+
+export type HelloAnswer =
+  | { reply: HelloMsg; name: string }
+  | { reply: Extract<Msg, { t: 'reject' }>; name: null }
+
+// The host's answer to a client's hello: its own hello and the name the client will go by, or a
+// reject and why
+export function answerHello(msg: HelloMsg, host: HostInfo, taken: (name: string) => boolean): HelloAnswer {
+  const reason = checkHello(msg)
+  if (reason) return { reply: { t: 'reject', reason }, name: null }
+  const name = uniquePlayerName(msg.name.trim(), taken)
+  return { reply: { t: 'hello', v: PROTOCOL_VERSION, name: host.name, preset: host.preset, params: { ...host.params }, o: host.o, you: name }, name }
+}
+
+// ---------- Per-peer rate limits ----------
+// Token buckets per message type: `rate` messages per second, bursting up to `burst`. Only the host
+// limits what it hears; clients take whatever their host sends, and the host paces itself.
+const rateLimits: Record<Msg['t'], { rate: number; burst: number }> = {
+  hello: { rate: 0.2, burst: 2 },
+  reject: { rate: 0.2, burst: 1 },
+  config: { rate: 10, burst: 20 },
+  camera: { rate: 10, burst: 20 },
+  seed: { rate: 0.5, burst: 2 },
+  world: { rate: 0.2, burst: 2 },
+  critters: { rate: 20, burst: 30 },
+  input: { rate: 30, burst: 40 },
+  chat: { rate: 1, burst: 5 },
+  emote: { rate: 2, burst: 5 },
+}
+
+export function createRateLimiter() {
+  const buckets = new Map<Msg['t'], { tokens: number; at: number }>()
+  return function allow(type: Msg['t'], now: number): boolean {
+    const { rate, burst } = rateLimits[type]
+    const b = buckets.get(type) || { tokens: burst, at: now }
+    b.tokens = Math.min(burst, b.tokens + ((now - b.at) / 1000) * rate)
+    b.at = now
+    buckets.set(type, b)
+    if (b.tokens < 1) return false
+    b.tokens -= 1
+    return true
+  }
+}
@@ -0,0 +1,449 @@
+import * as THREE from 'three'
+import { hoverHeight, type BodyType, type Critter } from './sim'
+
+// ---------- Procedural critter rigs ----------
+// Every body type gets its own skeleton: a spine the body is skinned to (a long segmented one for
+// worms) and two-bone legs whose feet stay planted on the ground while the body walks over them,
+// solved with IK each frame. The spine's own moves (idle, walk, crouch-to-leap, airborne, landing,
+// dazed) are keyframed clips blended through the critter's AnimationMixer.
+export type ClipName = 'idle' | 'walk' | 'crouch' | 'airborne' | 'land' | 'dazed'
+
+interface Leg {
+  hip: THREE.Bone
+  knee: THREE.Bone
+  upper: number
+  lower: number
+  rest: THREE.Vector3 // where the foot stands, in the body's frame
+  tuck: THREE.Vector3 // where it's drawn up to in flight, likewise
+  pole: THREE.Vector3 // which way the knee bends, likewise
+  phase: number // offset into the gait cycle, 0..1
+  plant: THREE.Vector3 // planted foot, relative to the planet's centre
+  lift: THREE.Vector3 // where the current step started, likewise
+  swinging: boolean
+}
+
+export interface CritterRig {
+  body: THREE.SkinnedMesh
+  spine: THREE.Bone[] // tail (or bottom) to head (or top); spine[0] is the root
+  legs: Leg[]
+  swing: number // fraction of the gait cycle each foot spends in the air
+  step: number // how high feet lift
+  mixer: THREE.AnimationMixer
+  actions: Record<ClipName, THREE.AnimationAction>
+  grounded: number // eased 0 (airborne) .. 1 (on the ground)
+  walking: number // eased 0 (standing) .. 1 (walking)
+  dazed: number // eased 0 .. 1 (stunned after a hard landing)
+  wasGrounded: boolean
+  gaitPhase: number // critter.gaitPhase when last posed
+  last: THREE.Vector3 | null // body position relative to the planet, last frame
+  motion: THREE.Vector3 // smoothed ground velocity
+}
+
+// Everything about a body plan, in units of the critter's size
+export interface Layout {
+  axis: 'y' | 'z' // the spine runs up (bipeds) or front to back
+  spine: number[] // bone positions along the axis, tail to head
+  shape: THREE.Vector3 // body radii
+  worm: boolean
+  legs: { hip: THREE.Vector3; foot: THREE.Vector3; phase: number }[]
+  legLength: number
+  kneesOut: boolean // insects' knees stick up and out; everyone else's bend forward
+  swing: number
+  ears: THREE.Vector3 // right ear, in the body's frame; mirrored for the left
+}
+
+// Critters hover this far above the ground (at unit size), so that's where their feet go
+export const groundDepth = hoverHeight
+const standing = 0.85 // legs stand this straight (fraction of their full reach)
+const clearance = 0.1 // belly above the ground
+
+export function layoutFor(bodyType: BodyType, legPairs: number, legLength: number): Layout {
+  const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z)
+  switch (bodyType) {
+    case 'worm':
+      return {
+        axis: 'z', spine: [-1.5, -0.9, -0.3, 0.3, 0.9, 1.5], shape: v(0.75, 0.75, 2.25), worm: true,
+        legs: [], legLength: 0, kneesOut: false, swing: 0.5, ears: v(0.35, 0.55, 1.4),
+      }
+    case 'insect': {
+      // Tripod gait: alternate legs down each side step together
+      const legs: Layout['legs'] = []
+      for (let i = 0; i < legPairs; i++) {
+        const z = THREE.MathUtils.lerp(0.55, -0.55, legPairs > 1 ? i / (legPairs - 1) : 0.5)
+        for (const side of [-1, 1]) {
+          legs.push({ hip: v(side * 0.6, 0, z), foot: v(side * (0.6 + 0.55 * legLength), 0, z * 1.5), phase: ((i + (side > 0 ? 1 : 0)) % 2) * 0.5 })
+        }
+      }
+      return {
+        axis: 'z', spine: [-1, 0, 0.9], shape: v(0.85, 0.65, 1.3), worm: false,
+        legs, legLength: 1.2 * legLength, kneesOut: true, swing: 0.45, ears: v(0.35, 0.5, 1.1),
+      }
+    }
+    case 'biped':
+      return {
+        axis: 'y', spine: [-0.6, 0.3, 1.1], shape: v(1.1, 1.25, 1), worm: false,
+        legs: [
+          { hip: v(-0.45, -0.6, 0.1), foot: v(-0.5, 0, 0.2), phase: 0 },
+          { hip: v(0.45, -0.6, 0.1), foot: v(0.5, 0, 0.2), phase: 0.5 },
+        ],
+        legLength: 1.4 * legLength, kneesOut: false, swing: 0.4, ears: v(0.55, 1.05, 0.35),
+      }
+    case 'quadruped':
+      // Walk: left hind, left fore, right hind, right fore
+      return {
+        axis: 'z', spine: [-0.9, 0, 0.9], shape: v(0.9, 0.85, 1.3), worm: false,
+        legs: [
+          { hip: v(-0.55, -0.3, 0.65), foot: v(-0.6, 0, 0.7), phase: 0.25 },
+          { hip: v(0.55, -0.3, 0.65), foot: v(0.6, 0, 0.7), phase: 0.75 },
+          { hip: v(-0.55, -0.3, -0.65), foot: v(-0.6, 0, -0.7), phase: 0 },
+          { hip: v(0.55, -0.3, -0.65), foot: v(0.6, 0, -0.7), phase: 0.5 },
+        ],
+        legLength: 1.3 * legLength, kneesOut: false, swing: 0.3, ears: v(0.4, 0.75, 1.05),
+      }
+  }
+}
+
+const along = (layout: Layout, v: THREE.Vector3) => layout.axis === 'y' ? v.y : v.z
+const onAxis = (layout: Layout, a: number, lift: number) => layout.axis === 'y' ? new THREE.Vector3(0, a + lift, 0) : new THREE.Vector3(0, lift, a)
+
+// How far the legs hold the body up (`rise`, added to the layout's heights). Legs too short to keep
+// the belly off the ground grow to the shortest that can.
+export function stance(layout: Layout): { legLength: number; rise: number } {
+  const ground = -groundDepth
+  const first = layout.legs[0]
+  if (!first) return { legLength: layout.legLength, rise: ground + layout.shape.y } // worms lie on the ground
+  const spread = Math.hypot(first.foot.x - first.hip.x, first.foot.z - first.hip.z)
+  const lowest = ground + clearance + layout.shape.y - first.hip.y
+  const legLength = Math.max(layout.legLength, Math.hypot(spread, lowest - ground) / standing)
+  return { legLength, rise: ground + Math.sqrt(Math.max((legLength * standing) ** 2 - spread ** 2, 0)) - first.hip.y }
+}
+
+// The body's shape, centred on the spine and raised by `rise`, at unit size
+export function bodyGeometry(layout: Layout, rise: number): THREE.BufferGeometry {
+  const geometry = layout.worm
+    ? new THREE.CapsuleGeometry(layout.shape.x, (layout.shape.z - layout.shape.x) * 2, 8, 24).rotateX(Math.PI / 2)
+    : new THREE.SphereGeometry(1, 32, 24).scale(layout.shape.x, layout.shape.y, layout.shape.z)
+  return geometry.translate(0, rise, 0)
+}
+
+// How thick legs are, at unit size
+export const legThickness = (bodyType: BodyType) => bodyType === 'insect' ? 0.12 : bodyType === 'biped' ? 0.16 : 0.14
+
+export function createCritterRig(critter: Critter, material: THREE.Material): CritterRig {
+  const s = critter.sizeScale
+  const { genome } = critter
+  const layout = layoutFor(critter.bodyType, genome.legPairs, genome.legLength)
+  const ground = -groundDepth
+  const { legLength, rise } = stance(layout)
+
+  // Spine: a chain from the tail, with the body skinned along it
+  const spine: THREE.Bone[] = []
+  layout.spine.forEach((a, i) => {
+    const bone = new THREE.Bone()
+    bone.name = `spine${i}`
+    bone.position.copy(i === 0 ? onAxis(layout, a, rise) : onAxis(layout, a - layout.spine[i - 1], 0)).multiplyScalar(s)
+    if (i > 0) spine[i - 1].add(bone)
+    spine.push(bone)
+  })
+  const geometry = bodyGeometry(layout, rise).scale(s, s, s)
+  skinAlongSpine(geometry, layout, s)
+
+  const body = new THREE.SkinnedMesh(geometry, material)
+  body.add(spine[0])
+  body.updateMatrixWorld(true)
+  body.bind(new THREE.Skeleton(spine))
+  body.castShadow = true
+  body.receiveShadow = true
+
+  // Where a point in the body's frame sits relative to the spine bone nearest it
+  const boneRest = layout.spine.map(a => onAxis(layout, a, rise).multiplyScalar(s))
+  const nearestBone = (p: THREE.Vector3) => {
+    const gap = (i: number) => Math.abs(along(layout, boneRest[i]) - along(layout, p))
+    let best = 0
+    boneRest.forEach((_, i) => { if (gap(i) < gap(best)) best = i })
+    return best
+  }
+
+  // Ears (as big as the genes say, if any) sit on the head
+  if (genome.ears > 0.15) {
+    const head = spine.length - 1
+    const earGeo = new THREE.SphereGeometry(0.35 * genome.ears * s, 16, 16)
+    for (const side of [-1, 1]) {
+      const ear = new THREE.Mesh(earGeo, material)
+      ear.position.set(side * layout.ears.x, layout.ears.y + rise, layout.ears.z).multiplyScalar(s).sub(boneRest[head])
+      spine[head].add(ear)
+    }
+  }
+
+  const thickness = legThickness(critter.bodyType) * s
+  const legs: Leg[] = layout.legs.map(spec => {
+    const hipAt = spec.hip.clone().setY(spec.hip.y + rise).multiplyScalar(s)
+    const parent = nearestBone(hipAt)
+    const upper = legLength * 0.5 * s
+    const lower = legLength * 0.5 * s
+    const hip = new THREE.Bone()
+    hip.position.subVectors(hipAt, boneRest[parent])
+    spine[parent].add(hip)
+    const knee = new THREE.Bone()
+    knee.position.y = -upper
+    hip.add(knee)
+    addLimb(hip, material, upper, thickness)
+    addLimb(knee, material, lower, thickness * 0.8)
+    const foot = new THREE.Mesh(new THREE.SphereGeometry(thickness * 1.3, 10, 8), material)
+    foot.position.y = -lower
+    knee.add(foot)
+    return {
+      hip, knee, upper, lower,
+      rest: new THREE.Vector3(spec.foot.x, 0, spec.foot.z).multiplyScalar(s).setY(ground * s),
+      tuck: hipAt.clone().add(new THREE.Vector3(0, -0.55 * (upper + lower), 0.2 * (upper + lower))),
+      pole: layout.kneesOut ? new THREE.Vector3(Math.sign(spec.hip.x), 1, 0) : new THREE.Vector3(0, 0.2, 1),
+      phase: spec.phase,
+      plant: new THREE.Vector3(),
+      lift: new THREE.Vector3(),
+      swinging: false,
+    }
+  })
+
+  const mixer = new THREE.AnimationMixer(body)
+  const clips = makeClips(layout, spine[0].position, s, layout.worm ? 0.4 * s : rise * s - ground * s)
+  const actions = {} as Record<ClipName, THREE.AnimationAction>
+  for (const name of Object.keys(clips) as ClipName[]) {
+    const action = mixer.clipAction(clips[name])
+    if (name === 'crouch' || name === 'land') {
+      action.setLoop(THREE.LoopOnce, 1)
+    } else {
+      action.play()
+      action.setEffectiveWeight(name === 'idle' ? 1 : 0)
+    }
+    actions[name] = action
+  }
+  // Walking is scrubbed to the critter's gait phase rather than played
+  actions.walk.timeScale = 0
+
+  return {
+    body, spine, legs, swing: layout.swing, step: 0.25 * legLength * s, mixer, actions,
+    grounded: critter.state === 'grounded' ? 1 : 0, walking: 0, dazed: 0, wasGrounded: critter.state === 'grounded',
+    gaitPhase: critter.gaitPhase, last: null, motion: new THREE.Vector3(),
+  }
+}
+
+// Each vertex follows the two spine bones either side of it
+function skinAlongSpine(geometry: THREE.BufferGeometry, layout: Layout, s: number) {
+  const positions = geometry.attributes.position as THREE.BufferAttribute
+  const indices: number[] = []
+  const weights: number[] = []
+  const p = new THREE.Vector3()
+  const n = layout.spine.length
+  for (let i = 0; i < positions.count; i++) {
+    const a = along(layout, p.fromBufferAttribute(positions, i)) / s
+    let k = 0
+    while (k < n - 2 && a > layout.spine[k + 1]) k++
+    const t = THREE.MathUtils.clamp((a - layout.spine[k]) / (layout.spine[k + 1] - layout.spine[k]), 0, 1)
+    indices.push(k, k + 1, 0, 0)
+    weights.push(1 - t, t, 0, 0)
+  }
+  geometry.setAttribute('skinIndex', new THREE.Uint16BufferAttribute(indices, 4))
+  geometry.setAttribute('skinWeight', new THREE.Float32BufferAttribute(weights, 4))
+}
+
+// A limb segment hanging down from its bone
+function addLimb(bone: THREE.Bone, material: THREE.Material, length: number, thickness: number) {
+  const mesh = new THREE.Mesh(new THREE.CylinderGeometry(thickness, thickness, length, 8), material)
+  mesh.position.y = -length / 2
+  mesh.castShadow = true
+  bone.add(mesh)
+}
+
+// ---------- Clips ----------
+// `root` is the rest position of spine0; `height` how far the body stands off the ground
+function makeClips(layout: Layout, root: THREE.Vector3, s: number, height: number): Record<ClipName, THREE.AnimationClip> {
+  const head = `spine${layout.spine.length - 1}`
+  const bob = (times: number[], dy: number[]) =>
+    new THREE.VectorKeyframeTrack('spine0.position', times, dy.flatMap(d => [root.x, root.y + d, root.z]))
+  const turn = (bone: string, axis: THREE.Vector3, times: number[], angles: number[]) =>
+    new THREE.QuaternionKeyframeTrack(`${bone}.quaternion`, times, angles.flatMap(a => new THREE.Quaternion().setFromAxisAngle(axis, a).toArray()))
+  const x = new THREE.Vector3(1, 0, 0)
+  const y = new THREE.Vector3(0, 1, 0)
+  const z = new THREE.Vector3(0, 0, 1)
+
+  // Walking: legged bodies bob at every footfall and sway side to side; worms send a wave down the spine
+  const walk: THREE.KeyframeTrack[] = []
+  if (layout.worm) {
+    const times = [0, 0.125, 0.25, 0.375, 0.5, 0.625, 0.75, 0.875, 1]
+    for (let i = 1; i < layout.spine.length; i++) {
+      walk.push(turn(`spine${i}`, y, times, times.map(t => 0.35 * Math.sin(2 * Math.PI * t + i * 1.1))))
+    }
+    walk.push(bob(times, times.map(t => 0.08 * s * Math.max(0, Math.sin(4 * Math.PI * t)))))
+  } else {
+    walk.push(bob([0, 0.25, 0.5, 0.75, 1], [0, 0.06 * s, 0, 0.06 * s, 0]))
+    walk.push(turn('spine0', z, [0, 0.25, 0.5, 0.75, 1], [-0.06, 0, 0.06, 0, -0.06]))
+    walk.push(turn(head, x, [0, 0.25, 0.5, 0.75, 1], [0.04, -0.02, 0.04, -0.02, 0.04]))
+  }
+
+  return {
+    // Breathing, and the odd look about
+    idle: new THREE.AnimationClip('idle', 2.4, [
+      bob([0, 1.2, 2.4], [0, 0.03 * s, 0]),
+      turn(head, x, [0, 1.2, 2.4], [0, 0.06, 0]),
+      turn(head, y, [0, 0.6, 1.8, 2.4], [0, 0.15, -0.15, 0]),
+    ]),
+    walk: new THREE.AnimationClip('walk', 1, walk),
+    // Squat, then spring up (played as the critter leaves the ground)
+    crouch: new THREE.AnimationClip('crouch', 0.35, [
+      bob([0, 0.12, 0.25, 0.35], [0, -0.35 * height, 0.12 * height, 0]),
+      turn(head, x, [0, 0.12, 0.35], [0, 0.2, -0.2]),
+    ]),
+    // Stretched out, nose up, with a little paddling
+    airborne: new THREE.AnimationClip('airborne', 1, [
+      turn('spine0', x, [0, 0.5, 1], [-0.15, -0.1, -0.15]),
+      turn(head, x, [0, 0.5, 1], [-0.2, -0.1, -0.2]),
+    ]),
+    // Reeling after a hard landing: head lolling round, body swaying
+    dazed: new THREE.AnimationClip('dazed', 1.2, [
+      turn(head, z, [0, 0.3, 0.6, 0.9, 1.2], [0.25, 0, -0.25, 0, 0.25]),
+      turn('spine0', z, [0, 0.6, 1.2], [-0.1, 0.1, -0.1]),
+    ]),
+    // Squash on touchdown and recover
+    land: new THREE.AnimationClip('land', 0.4, [
+      bob([0, 0.08, 0.22, 0.4], [0, -0.3 * height, 0.05 * height, 0]),
+      turn(head, x, [0, 0.08, 0.4], [0, 0.25, 0]),
+    ]),
+  }
+}
+
+// ---------- Posing ----------
+const _home = new THREE.Vector3()
+const _foot = new THREE.Vector3()
+const _lead = new THREE.Vector3()
+const _rel = new THREE.Vector3()
+const _quat = new THREE.Quaternion()
+
+// Blend the clips for what the critter is doing, then put its feet where they belong. `center` is
+// the planet it stands on, as drawn, and `ground` how far from that centre the ground lies in a
+// world-space direction.
+export function poseCritterRig(rig: CritterRig, critter: Critter, center: THREE.Vector3, ground: (direction: THREE.Vector3) => number, delta: number) {
+  const grounded = critter.state === 'grounded'
+  const gaitRate = delta > 0 ? (critter.gaitPhase - rig.gaitPhase) / delta : 0
+  rig.gaitPhase = critter.gaitPhase
+  if (grounded !== rig.wasGrounded) {
+    rig.wasGrounded = grounded
+    const action = grounded ? rig.actions.land : rig.actions.crouch
+    action.reset().fadeIn(0.05).play()
+    rig.last = null
+    if (grounded) rig.legs.forEach(leg => { leg.swinging = false })
+  }
+
+  const ease = (from: number, to: number, rate: number) => from + (to - from) * Math.min(1, rate * delta)
+  rig.grounded = ease(rig.grounded, grounded ? 1 : 0, 8)
+  rig.walking = ease(rig.walking, grounded && gaitRate > 0 ? 1 : 0, 5)
+  rig.dazed = ease(rig.dazed, grounded && critter.stunned > 0 ? 1 : 0, 6)
+  // One-shots take over while they play
+  const { idle, walk, crouch, airborne, land, dazed } = rig.actions
+  const oneShot = Math.max(crouch.isRunning() ? crouch.getEffectiveWeight() : 0, land.isRunning() ? land.getEffectiveWeight() : 0)
+  const base = 1 - oneShot
+  idle.setEffectiveWeight(base * rig.grounded * (1 - rig.walking) * (1 - rig.dazed))
+  walk.setEffectiveWeight(base * rig.grounded * rig.walking * (1 - rig.dazed))
+  dazed.setEffectiveWeight(base * rig.grounded * rig.dazed)
+  airborne.setEffectiveWeight(base * (1 - rig.grounded))
+  walk.time = THREE.MathUtils.euclideanModulo(critter.gaitPhase / (Math.PI * 2), 1) * walk.getClip().duration
+  rig.mixer.update(delta)
+  rig.body.updateMatrixWorld(true)
+
+  // How fast the body is moving over the ground, to place each step ahead of it
+  _rel.subVectors(rig.body.position, center)
+  if (rig.last && delta > 0) rig.motion.lerp(_foot.subVectors(_rel, rig.last).divideScalar(delta), Math.min(1, 10 * delta))
+  rig.last = (rig.last ?? new THREE.Vector3()).copy(_rel)
+
+  const cycle = critter.gaitPhase / (Math.PI * 2)
+  const stance = gaitRate > 0 ? (1 - rig.swing) * (Math.PI * 2) / gaitRate : 0
+  rig.body.getWorldQuaternion(_quat)
+  for (const leg of rig.legs) {
+    if (!grounded) {
+      solveLeg(leg, rig.body.localToWorld(_foot.copy(leg.tuck)), _quat)
+      continue
+    }
+    // Home: under the hip on the ground, a little ahead while walking
+    const reach = leg.upper + leg.lower
+    rig.body.localToWorld(_home.copy(leg.rest)).sub(center)
+    _lead.copy(rig.motion).multiplyScalar(stance * 0.5).clampLength(0, reach * 0.5)
+    _home.add(_lead)
+    _home.setLength(ground(_home))
+
+    if (rig.walking > 0.01 && gaitRate > 0) {
+      const t = THREE.MathUtils.euclideanModulo(cycle + leg.phase, 1)
+      if (t < rig.swing) {
+        if (!leg.swinging) {
+          leg.swinging = true
+          leg.lift.copy(leg.plant)
+        }
+        const s = t / rig.swing
+        _foot.lerpVectors(leg.lift, _home, THREE.MathUtils.smoothstep(s, 0, 1))
+        _foot.setLength(ground(_foot) + rig.step * Math.sin(Math.PI * s))
+      } else {
+        if (leg.swinging) {
+          leg.swinging = false
+          leg.plant.copy(_home)
+        }
+        _foot.copy(leg.plant)
+      }
+    } else {
+      // Standing still: any foot caught mid-step comes down where it should be
+      if (leg.swinging) {
+        leg.swinging = false
+        leg.plant.copy(_home)
+      }
+      _foot.copy(leg.plant)
+    }
+    // Just landed, or dragged off its footing: stand on home ground again
+    if (_foot.distanceTo(_home) > reach) {
+      leg.plant.copy(_home)
+      leg.swinging = false
+      _foot.copy(_home)
+    }
+    solveLeg(leg, _foot.add(center), _quat)
+  }
+}
+
+const _hip = new THREE.Vector3()
+const _dir = new THREE.Vector3()
+const _pole = new THREE.Vector3()
+const _knee = new THREE.Vector3()
+const _down = new THREE.Vector3(0, -1, 0)
+const _hipQuat = new THREE.Quaternion()
+const _kneeQuat = new THREE.Quaternion()
+const _parentQuat = new THREE.Quaternion()
+
+// Two-bone IK: bend the knee toward the leg's pole so the foot reaches `foot` (world space), or
+// as near as the leg can stretch
+function solveLeg(leg: Leg, foot: THREE.Vector3, bodyQuat: THREE.Quaternion) {
+  leg.hip.getWorldPosition(_hip)
+  _dir.subVectors(foot, _hip)
+  const d = THREE.MathUtils.clamp(_dir.length(), Math.abs(leg.upper - leg.lower) + 1e-3, (leg.upper + leg.lower) * 0.999)
+  _dir.normalize()
+  _pole.copy(leg.pole).applyQuaternion(bodyQuat)
+  _pole.addScaledVector(_dir, -_pole.dot(_dir))
+  if (_pole.lengthSq() < 1e-8) _pole.set(0, 0, 1).applyQuaternion(bodyQuat)
+  _pole.normalize()
+
+  // Law of cosines for the angle at the hip
+  const cosHip = THREE.MathUtils.clamp((leg.upper ** 2 + d * d - leg.lower ** 2) / (2 * leg.upper * d), -1, 1)
+  const sinHip = Math.sqrt(1 - cosHip * cosHip)
+  _knee.copy(_hip).addScaledVector(_dir, leg.upper * cosHip).addScaledVector(_pole, leg.upper * sinHip)
+  const footAt = _dir.multiplyScalar(d).add(_hip)
+
+  // Bones hang along -y; turn each to point at the next joint
+  _hipQuat.setFromUnitVectors(_down, _pole.subVectors(_knee, _hip).normalize())
+  leg.hip.parent!.getWorldQuaternion(_parentQuat)
+  leg.hip.quaternion.copy(_parentQuat.invert().multiply(_hipQuat))
+  _kneeQuat.setFromUnitVectors(_down, _pole.subVectors(footAt, _knee).normalize())
+  leg.knee.quaternion.copy(_hipQuat.invert().multiply(_kneeQuat))
+}
+
+export function disposeCritterRig(rig: CritterRig) {
+  rig.mixer.stopAllAction()
+  rig.mixer.uncacheRoot(rig.body)
+  rig.body.traverse(o => { if (o instanceof THREE.Mesh) o.geometry.dispose() })
+  const material = rig.body.material as THREE.Material
+  material.dispose()
+  rig.body.skeleton.dispose()
+}
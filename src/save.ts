@@ -0,0 +1,346 @@
+import * as THREE from 'three'
+import { arrayOf, fraction, inRange, isNum, isObject, isStr, nonNegative, nullable, numberRecord, oneOf, optional, positive, shape, tuple, type Check } from './schema'
+import { bodyTypeOf, findPlanet, hoverHeight, maxCritters, maxMoons, maxNameLength, maxPlanets, maxSeedLength, maxFruit, maxTrees, paramRanges, planetSpecOf, setSystem, updateOrbits, type Behaviour, type Critter, type CritterState, type Genome, type Needs, type PlanetSpec, type SimParams, type StarSpec, type World } from './sim'
+import type { QuatTuple, Vec3Tuple } from './protocol'
+
+// ---------- World saves ----------
+// A versioned JSON snapshot of everything needed to rebuild a world: seed, tuning, orbit clock,
+// the planet lineup and every critter. Used for save files, share links and room joins.
+// Bump SAVE_VERSION when the shape changes; older saves are refused rather than half-loaded.
+export const SAVE_VERSION = 9
+
+export interface PlanetSave extends PlanetSpec {
+  spin: number
+  fruit: number[] // per tree; the trees themselves grow back from the seed
+  p?: Vec3Tuple // N-body state, when the orbits are being integrated
+  v?: Vec3Tuple
+}
+
+export interface MoonSave {
+  planet: string
+  radius: number
+  orbitRadius: number
+  speed: number
+  tiltDeg: number
+  angle: number
+  p?: Vec3Tuple // N-body state, as for planets
+  v?: Vec3Tuple
+}
+
+export interface CritterSave {
+  name: string
+  genome: Genome
+  age: number
+  lifespan: number
+  generation: number
+  parents: string[]
+  excitement: number
+  hits: number // leaps that reached their target
+  misses: number
+  behaviour: Behaviour
+  needs: Needs
+  visited: string[]
+  likes: Record<string, number>
+  friend: string | null // who it's on the way to see
+  social: number // seconds until it wants company again
+  destination: string | null // planet it's been sent to
+  home: string
+  target: string | null
+  state: CritterState
+  p: Vec3Tuple
+  q: QuatTuple
+  v: Vec3Tuple
+  tumble: Vec3Tuple
+  stunned: number
+  wander: number
+  gait: number
+}
+
+export interface WorldSave {
+  v: number
+  seed: string
+  preset: string
+  params: Record<string, number>
+  star: StarSpec
+  time: number // orbit clock
+  rng: number // simulation random stream position
+  planets: PlanetSave[]
+  moons: MoonSave[]
+  critters: CritterSave[]
+}
+
+
+const round3 = (x: number) => Math.round(x * 1000) / 1000
+
+export function saveWorld(world: World, preset: string): WorldSave {
+  return {
+    v: SAVE_VERSION,
+    seed: world.seed,
+    preset,
+    params: { ...world.params },
+    star: { ...world.star },
+    time: world.time,
+    rng: world.random.state,
+    planets: world.planets.map(p => ({ ...planetSpecOf(p), spin: p.spin, fruit: p.trees.map(t => round3(t.fruit)), ...bodyState(world, p) })),
+    moons: world.moons.map(m => ({
+      planet: m.planet.name,
+      radius: m.radius,
+      orbitRadius: m.orbitRadius,
+      speed: m.speed,
+      tiltDeg: round3(THREE.MathUtils.radToDeg(m.tilt)),
+      angle: m.angle,
+      ...bodyState(world, m),
+    })),
+    critters: world.critters.map(c => ({
+      name: c.name,
+      genome: { ...c.genome },
+      age: round3(c.age),
+      lifespan: round3(c.lifespan),
+      generation: c.generation,
+      parents: [...c.parents],
+      excitement: round3(c.excitement),
+      hits: c.leapHits,
+      misses: c.leapMisses,
+      behaviour: c.behaviour,
+      needs: { hunger: round3(c.needs.hunger), energy: round3(c.needs.energy), sociability: round3(c.needs.sociability), curiosity: round3(c.needs.curiosity) },
+      visited: [...c.visited],
+      likes: Object.fromEntries(Object.entries(c.likes).map(([k, v]) => [k, round3(v)])),
+      friend: c.socialTarget ? c.socialTarget.name : null,
+      social: round3(c.nextSocialTime),
+      destination: c.destination ? c.destination.name : null,
+      home: c.homePlanet.name,
+      target: c.targetPlanet ? c.targetPlanet.name : null,
+      state: c.state,
+      p: [round3(c.position.x), round3(c.position.y), round3(c.position.z)],
+      q: [round3(c.quaternion.x), round3(c.quaternion.y), round3(c.quaternion.z), round3(c.quaternion.w)],
+      v: [round3(c.velocity.x), round3(c.velocity.y), round3(c.velocity.z)],
+      tumble: [round3(c.tumble.x), round3(c.tumble.y), round3(c.tumble.z)],
+      stunned: round3(c.stunned),
+      wander: round3(c.wanderPhase),
+      gait: round3(c.gaitPhase),
+    })),
+  }
+}
+
+// Integrated orbits can't be recomputed from the clock, so their positions and velocities are saved.
+// Kept at full precision: N-body orbits are chaotic enough for rounding to show.
+function bodyState(world: World, body: { position: THREE.Vector3; velocity: THREE.Vector3 }): { p?: Vec3Tuple; v?: Vec3Tuple } {
+  if (!world.integrating) return {}
+  return { p: body.position.toArray(), v: body.velocity.toArray() }
+}
+
+// Tuning from files, links and peers: any keys, but the known ones only within the GUI's ranges
+// (a negative spaceDrag, say, would blow velocities up to NaN)
+export const isSimParams: Check = v => numberRecord(64)(v) && Object.entries(v as Record<string, number>).every(([k, x]) => {
+  if (!Object.prototype.hasOwnProperty.call(paramRanges, k)) return true
+  const [min, max, step] = paramRanges[k as keyof SimParams]
+  return x >= min && x <= max && (step !== 1 || Number.isInteger(x))
+})
+
+export const starTemperature = inRange(1000, 40000) // kelvin
+
+const planetSave = shape({
+  name: isStr(maxNameLength),
+  radius: positive,
+  color: isNum,
+  orbitalRadius: positive,
+  orbitalSpeed: isNum,
+  axialTilt: isNum,
+  rotationSpeed: isNum,
+  gravityStrength: nonNegative,
+  eccentricity: optional(fraction),
+  inclination: optional(isNum),
+  periapsis: optional(isNum),
+  ring: optional(shape({ inner: positive, outer: positive, tiltDeg: isNum, opacity: optional(nonNegative) })),
+  treeDensity: optional(nonNegative),
+  atmosphereColor: optional(isNum),
+  atmosphereDensity: optional(nonNegative),
+  critters: optional(nonNegative),
+  spin: isNum,
+  fruit: arrayOf(isNum, maxTrees),
+  p: optional(tuple(3)),
+  v: optional(tuple(3)),
+})
+
+const moonSave = shape({
+  planet: isStr(maxNameLength),
+  radius: positive,
+  orbitRadius: positive,
+  speed: isNum,
+  tiltDeg: isNum,
+  angle: isNum,
+  p: optional(tuple(3)),
+  v: optional(tuple(3)),
+})
+
+const critterSave = shape({
+  name: isStr(maxNameLength),
+  genome: shape({
+    legPairs: v => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 8,
+    legLength: isNum,
+    size: positive,
+    hue: isNum,
+    ears: isNum,
+    temperament: isNum,
+  }),
+  age: isNum,
+  lifespan: isNum,
+  generation: isNum,
+  parents: arrayOf(isStr(maxNameLength), 2),
+  excitement: isNum,
+  hits: isNum,
+  misses: isNum,
+  behaviour: oneOf('wander', 'forage', 'sleep', 'seekFriend', 'explore', 'flee'),
+  needs: shape({ hunger: isNum, energy: isNum, sociability: isNum, curiosity: isNum }),
+  visited: arrayOf(isStr(maxNameLength), maxPlanets),
+  likes: numberRecord(maxCritters),
+  friend: nullable(isStr(maxNameLength)),
+  social: isNum,
+  destination: nullable(isStr(maxNameLength)),
+  home: isStr(maxNameLength),
+  target: nullable(isStr(maxNameLength)),
+  state: oneOf('grounded', 'leaping', 'space'),
+  p: tuple(3),
+  q: tuple(4),
+  v: tuple(3),
+  tumble: tuple(3),
+  stunned: isNum,
+  wander: isNum,
+  gait: isNum,
+})
+
+const worldSave = shape({
+  v: oneOf(SAVE_VERSION),
+  seed: isStr(maxSeedLength),
+  preset: isStr(maxNameLength),
+  params: isSimParams,
+  star: shape({ temperature: starTemperature, radius: positive }),
+  time: isNum,
+  rng: isNum,
+  planets: v => arrayOf(planetSave, maxPlanets)(v) && (v as unknown[]).length > 0,
+  moons: arrayOf(moonSave, maxPlanets * maxMoons),
+  critters: arrayOf(critterSave, maxCritters),
+})
+
+const unique = (names: string[]) => new Set(names).size === names.length
+
+// Planets and critters are known by name (moons, snapshots, likes, renames), so names must be unique
+export const isWorldSave: Check = v =>
+  worldSave(v) && unique((v as WorldSave).planets.map(p => p.name)) && unique((v as WorldSave).critters.map(c => c.name))
+
+// Returns the save if it is one this version can load, otherwise null
+export function parseWorldSave(data: unknown): WorldSave | null {
+  if (!isObject(data)) return null
+  return isWorldSave(data) ? data as unknown as WorldSave : null
+}
+
+// Rebuild the world in place from a save. The preset is left to the caller (it's a UI concept).
+export function loadWorld(world: World, save: WorldSave) {
+  world.seed = save.seed
+  for (const k of Object.keys(world.params) as (keyof SimParams)[]) {
+    if (k in save.params) world.params[k] = save.params[k]
+  }
+  world.star = { ...save.star }
+  world.time = save.time
+  world.inputs.clear()
+  world.events.length = 0
+
+  setSystem(world, save.planets, save.moons)
+  world.planets.forEach((p, i) => {
+    p.spinPhase = save.planets[i].spin - p.rotationSpeed * save.time
+    p.trees.forEach((t, j) => { t.fruit = THREE.MathUtils.clamp(save.planets[i].fruit[j] ?? t.fruit, 0, maxFruit) })
+  })
+  // setSystem skips moons of unknown planets, so match them back up by position in the list
+  const moons = save.moons.filter(m => findPlanet(world, m.planet))
+  world.moons.forEach((m, i) => { m.phase = moons[i].angle - (m.speed / 6) * save.time })
+  // Place planets and moons for the saved clock without advancing anything
+  updateOrbits(world, 0)
+  // Integrated orbits pick up exactly where they were, if the save has their state
+  if (world.integrating && save.planets.every(p => p.p && p.v) && moons.every(m => m.p && m.v)) {
+    world.planets.forEach((p, i) => restoreBody(p, save.planets[i]))
+    world.moons.forEach((m, i) => restoreBody(m, moons[i]))
+  }
+
+  world.critters = save.critters.map(s => {
+    const home = findPlanet(world, s.home) || world.planets[0]
+    const critter: Critter = {
+      name: s.name,
+      genome: { ...s.genome },
+      bodyType: bodyTypeOf(s.genome),
+      hue: s.genome.hue,
+      sizeScale: s.genome.size,
+      state: s.state,
+      targetPlanet: findPlanet(world, s.target),
+      homePlanet: home,
+      position: new THREE.Vector3().fromArray(s.p),
+      quaternion: new THREE.Quaternion().fromArray(s.q).normalize(),
+      velocity: new THREE.Vector3().fromArray(s.v),
+      tumble: new THREE.Vector3().fromArray(s.tumble),
+      stunned: Math.max(0, s.stunned),
+      surfaceOffset: hoverHeight * s.genome.size,
+      wanderPhase: s.wander,
+      gaitPhase: s.gait,
+      excitement: s.excitement,
+      behaviour: s.behaviour,
+      behaviourTime: 0,
+      needs: { ...s.needs },
+      visited: [...s.visited],
+      likes: { ...s.likes },
+      leapHits: s.hits,
+      leapMisses: s.misses,
+      socialTarget: null, // linked up below, once every critter exists
+      destination: findPlanet(world, s.destination),
+      nextSocialTime: s.social,
+      age: s.age,
+      lifespan: s.lifespan,
+      generation: s.generation,
+      parents: [...s.parents],
+      owner: null,
+      spawnedAvatar: false,
+    }
+    return critter
+  })
+
+  const byName = new Map(world.critters.map(c => [c.name, c]))
+  world.critters.forEach((c, i) => {
+    const friend = save.critters[i].friend
+    c.socialTarget = (friend !== null && byName.get(friend)) || null
+  })
+
+  // Restore the random stream last: rebuilding the system draws from it
+  world.random.state = save.rng
+}
+
+function restoreBody(body: { position: THREE.Vector3; velocity: THREE.Vector3 }, state: { p?: Vec3Tuple; v?: Vec3Tuple }) {
+  if (state.p) body.position.fromArray(state.p)
+  if (state.v) body.velocity.fromArray(state.v)
+}
+
+// ---------- Share links ----------
+// The save, deflated and base64url-encoded, so it fits in a URL hash (#w=...)
+export const worldHashPrefix = '#w='
+
+export async function encodeWorldHash(save: WorldSave): Promise<string> {
+  const bytes = await pipeBytes(new TextEncoder().encode(JSON.stringify(save)), new CompressionStream('deflate-raw'))
+  let bin = ''
+  for (const b of bytes) bin += String.fromCharCode(b)
+  return worldHashPrefix + btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Returns null for hashes that aren't world links, or whose world can't be loaded
+export async function decodeWorldHash(hash: string): Promise<WorldSave | null> {
+  if (!hash.startsWith(worldHashPrefix)) return null
+  try {
+    const bin = atob(hash.slice(worldHashPrefix.length).replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = Uint8Array.from(bin, ch => ch.charCodeAt(0))
+    const json = new TextDecoder().decode(await pipeBytes(bytes, new DecompressionStream('deflate-raw')))
+    return parseWorldSave(JSON.parse(json))
+  } catch {
+    return null
+  }
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
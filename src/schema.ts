@@ -0,0 +1,20 @@
+// ---------- Runtime schema checks ----------
+// Small combinators for validating untrusted JSON (wire messages, save files, share links)
+export type Check = (v: unknown) => boolean
+
+export const isNum: Check = v => typeof v === 'number' && Number.isFinite(v)
+export const isBool: Check = v => typeof v === 'boolean'
+export const positive: Check = v => isNum(v) && (v as number) > 0
+export const nonNegative: Check = v => isNum(v) && (v as number) >= 0
+export const fraction: Check = v => isNum(v) && (v as number) >= 0 && (v as number) < 1 // 0 up to, not including, 1
+export const inRange = (min: number, max: number): Check => v => isNum(v) && (v as number) >= min && (v as number) <= max
+export const isStr = (max: number): Check => v => typeof v === 'string' && v.length <= max
+export const nullable = (check: Check): Check => v => v === null || check(v)
+export const optional = (check: Check): Check => v => v === undefined || check(v)
+export const oneOf = (...values: unknown[]): Check => v => values.includes(v)
+export const tuple = (length: number): Check => v => Array.isArray(v) && v.length === length && v.every(isNum)
+export const arrayOf = (check: Check, max: number): Check => v => Array.isArray(v) && v.length <= max && v.every(check)
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+export const shape = (fields: Record<string, Check>): Check => v => isObject(v) && Object.keys(fields).every(k => fields[k](v[k]))
+export const numberRecord = (maxKeys: number): Check => v =>
+  isObject(v) && Object.keys(v).length <= maxKeys && Object.values(v).every(isNum)
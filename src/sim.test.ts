@@ -0,0 +1,148 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import { createWorld, defaultPlanets, leapNow, maxFruit, orbitModes, ripeFruit, stepWorld, surfaceAltitude, updateOrbits, type SimEvent, type World } from './sim'
+
+// Everything a peer would see of the critters, to compare runs
+function fingerprint(world: World) {
+  return world.critters.map(c => [c.name, c.state, c.behaviour, ...c.position.toArray(), ...c.quaternion.toArray(), c.needs.hunger])
+}
+
+function run(seed: string, ticks: number): World {
+  const world = createWorld({ seed, crittersPerPlanet: 6 })
+  for (let i = 0; i < ticks; i++) {
+    stepWorld(world, 1 / 60)
+    world.events.length = 0
+  }
+  return world
+}
+
+// Steps the world for `seconds`, handing each tick's events to `watch`
+function play(world: World, seconds: number, watch: (events: SimEvent[]) => void = () => {}) {
+  for (let t = 0; t < seconds; t += 1 / 30) {
+    stepWorld(world, 1 / 30)
+    watch(world.events)
+    world.events.length = 0
+  }
+}
+
+describe('stepWorld', () => {
+  it('grows the same world from the same seed', () => {
+    const a = run('garden', 900)
+    const b = run('garden', 900)
+    expect(fingerprint(b)).toEqual(fingerprint(a))
+    expect(b.random.state).toBe(a.random.state)
+  })
+
+  it('grows a different world from another seed', () => {
+    expect(fingerprint(run('meadow', 300))).not.toEqual(fingerprint(run('garden', 300)))
+  })
+
+  it('turns planets and moons by the clock alone', () => {
+    // Clients take the host's clock and place the bodies for it, whatever their own frame times
+    const host = run('garden', 600)
+    const client = createWorld({ seed: 'garden' })
+    client.time = host.time
+    updateOrbits(client, 1 / 30)
+    client.planets.forEach((p, i) => expect(p.spin).toBeCloseTo(host.planets[i].spin, 9))
+    client.moons.forEach((m, i) => expect(m.position.distanceTo(host.moons[i].position)).toBeLessThan(1e-6))
+  })
+})
+
+describe('critters', () => {
+  it('breed once grown, and never past a planet\'s populationCap', () => {
+    // One planet, so nobody arrives from elsewhere to push it over the cap
+    const world = createWorld({ seed: 'garden', planets: [defaultPlanets[0]], moons: [], crittersPerPlanet: 3, params: { populationCap: 5 } })
+    const born: SimEvent[] = []
+    play(world, 240, events => {
+      born.push(...events.filter(e => e.type === 'born'))
+      expect(world.critters.length).toBeLessThanOrEqual(5)
+    })
+    expect(born.length).toBeGreaterThan(0)
+    for (const { critter } of born) {
+      expect(critter.parents).toHaveLength(2)
+      expect(critter.generation).toBeGreaterThan(0)
+    }
+  })
+
+  it('land on the planet they leap for', () => {
+    const world = createWorld({ seed: 'garden', crittersPerPlanet: 1, params: { leapImpulse: 60 } })
+    const critter = world.critters[0]
+    const target = leapNow(world, critter)
+    expect(target).not.toBeNull()
+    let landed: SimEvent | undefined
+    play(world, 30, events => { landed ??= events.find(e => e.type === 'landed' && e.critter === critter) })
+    expect(landed).toMatchObject({ hit: true })
+    expect(critter.homePlanet).toBe(target)
+  })
+})
+
+describe('fruit', () => {
+  it('ripens at the fruitGrowth rate, up to maxFruit a tree', () => {
+    const world = createWorld({ seed: 'garden', crittersPerPlanet: 0, params: { fruitGrowth: 0 } })
+    for (const p of world.planets) for (const t of p.trees) t.fruit = 0
+    play(world, 10)
+    expect(world.planets.map(ripeFruit)).toEqual(world.planets.map(() => 0))
+
+    world.params.fruitGrowth = 2
+    play(world, 600)
+    for (const p of world.planets) {
+      expect(ripeFruit(p)).toBeGreaterThan(0)
+      for (const t of p.trees) expect(t.fruit).toBeLessThanOrEqual(maxFruit)
+    }
+  })
+})
+
+describe('orbits', () => {
+  it('keep Kepler planets between periapsis and apoapsis', () => {
+    const world = createWorld({ params: { orbitMode: orbitModes.kepler, orbitEccentricity: 0.3 }, crittersPerPlanet: 0 })
+    const reach = world.planets.map(() => [Infinity, 0])
+    for (let t = 0; t < 200; t += 0.5) {
+      world.time = t
+      updateOrbits(world, 0)
+      world.planets.forEach((p, i) => {
+        const r = p.position.length()
+        reach[i] = [Math.min(reach[i][0], r), Math.max(reach[i][1], r)]
+      })
+    }
+    world.planets.forEach((p, i) => {
+      expect(reach[i][0]).toBeGreaterThanOrEqual(p.orbitalRadius * 0.7 - 1e-6)
+      expect(reach[i][1]).toBeLessThanOrEqual(p.orbitalRadius * 1.3 + 1e-6)
+      expect(reach[i][1] - reach[i][0]).toBeGreaterThan(p.orbitalRadius * 0.5)
+    })
+  })
+
+  it('integrate N-body orbits the same way twice, and keep planets in the system', () => {
+    const grow = () => {
+      const world = createWorld({ params: { orbitMode: orbitModes.nbody }, crittersPerPlanet: 0 })
+      play(world, 120)
+      return world
+    }
+    const a = grow()
+    const b = grow()
+    expect(a.integrating).toBe(true)
+    expect(b.planets.map(p => p.position.toArray())).toEqual(a.planets.map(p => p.position.toArray()))
+    for (const p of a.planets) expect(p.position.length()).toBeLessThan(p.orbitalRadius * 2)
+  })
+
+  it('switch between modes without losing the planets', () => {
+    const world = createWorld({ crittersPerPlanet: 0 })
+    for (const mode of [orbitModes.nbody, orbitModes.kepler, orbitModes.programmed]) {
+      world.params.orbitMode = mode
+      play(world, 5)
+      for (const p of world.planets) expect(p.position.length()).toBeGreaterThan(0)
+    }
+    expect(world.integrating).toBe(false)
+  })
+})
+
+describe('terrain', () => {
+  it('belongs to each world\'s own seed, however worlds take turns', () => {
+    const up = new THREE.Vector3(0.3, 0.8, -0.5).normalize()
+    const altitude = (world: World) => surfaceAltitude(world, world.planets[0], up)
+    const garden = createWorld({ seed: 'garden', crittersPerPlanet: 0 })
+    const alone = altitude(garden)
+    const meadow = createWorld({ seed: 'meadow', crittersPerPlanet: 0 })
+    expect(altitude(meadow)).not.toBe(alone)
+    expect(altitude(garden)).toBe(alone)
+  })
+})
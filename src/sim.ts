@@ -0,0 +1,1867 @@
+import * as THREE from 'three'
+import { createNoise3D, type NoiseFunction3D } from 'simplex-noise'
+
+// ---------- Headless simulation core ----------
+// Planets, orbits, gravity, critter wandering/leaping/landing and player avatars, with no DOM
+// or WebGL dependency (three is only used for its math). The renderer in main.ts observes a
+// World; tests, a headless host or batch runs can drive one directly:
+//
+//   const world = createWorld({ seed: 'garden' })
+//   for (let i = 0; i < 600; i++) stepWorld(world, 1 / 60)
+
+// ---------- Seeded RNG ----------
+export function hashStringToInt32(str: string): number {
+  let h = 2166136261 >>> 0
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i)
+    h = Math.imul(h, 16777619)
+  }
+  return h >>> 0
+}
+// A random stream whose position can be saved and restored through `state`
+export interface RandomStream {
+  (): number
+  state: number
+}
+export function mulberry32(seed: number): RandomStream {
+  const next = (() => {
+    let s = next.state | 0
+    s = s + 0x6D2B79F5 | 0
+    next.state = s
+    let t = Math.imul(s ^ s >>> 15, 1 | s)
+    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t
+    return ((t ^ t >>> 14) >>> 0) / 4294967296
+  }) as RandomStream
+  next.state = seed
+  return next
+}
+
+// Uniform random direction from a seeded stream (Vector3.randomDirection uses Math.random)
+export function randomDirection(rng: () => number, target = new THREE.Vector3()): THREE.Vector3 {
+  const u = (rng() - 0.5) * 2
+  const t = rng() * Math.PI * 2
+  const f = Math.sqrt(1 - u * u)
+  return target.set(f * Math.cos(t), f * Math.sin(t), u)
+}
+
+// ---------- Types ----------
+export interface StarSpec {
+  temperature: number // kelvin; sets the star's blackbody color
+  radius: number
+}
+
+export interface RingSpec {
+  inner: number // radii relative to the planet's
+  outer: number
+  tiltDeg: number
+  opacity?: number
+}
+
+export interface PlanetSpec {
+  name: string
+  radius: number
+  color: number
+  orbitalRadius: number
+  orbitalSpeed: number // radians per second
+  axialTilt: number
+  rotationSpeed: number // radians per second
+  gravityStrength: number // relative G for critters
+  eccentricity?: number // Kepler/N-body orbit shape (default: params.orbitEccentricity)
+  inclination?: number // Kepler/N-body orbit tilt out of the ecliptic, radians
+  periapsis?: number // Kepler/N-body argument of periapsis, radians
+  ring?: RingSpec
+  treeDensity?: number // trees per unit of surface area (default scales with radius)
+  atmosphereColor?: number // default: a brighter planet color
+  atmosphereDensity?: number // how thick the air is (default 1)
+  critters?: number // starting population
+}
+
+export interface Planet extends PlanetSpec {
+  index: number // orbit phase offset
+  position: THREE.Vector3
+  velocity: THREE.Vector3 // N-body only
+  spin: number // rotation about the planet's axis, spinPhase + rotationSpeed * time
+  spinPhase: number // spin when the orbit clock read 0
+  trees: Tree[]
+}
+
+// A fruit tree; planted from the seed, so only its fruit needs saving
+export interface Tree {
+  direction: THREE.Vector3 // unit vector in the planet's own (tilted, spinning) frame
+  fertility: number // 0..1, from the biome it grows in
+  fruit: number // the whole part is ripe fruit, up to maxFruit
+}
+
+export interface MoonSpec {
+  planet: string
+  radius: number
+  orbitRadius: number
+  speed: number
+  tiltDeg: number
+}
+
+export interface Moon {
+  planet: Planet
+  radius: number
+  orbitRadius: number
+  speed: number
+  angle: number // along its orbit, phase + speed / 6 * time outside N-body mode
+  phase: number // angle when the orbit clock read 0
+  tilt: number
+  position: THREE.Vector3
+  velocity: THREE.Vector3 // N-body only, relative to its planet
+}
+
+export type BodyType = 'worm' | 'insect' | 'biped' | 'quadruped'
+export type CritterState = 'grounded' | 'leaping' | 'space'
+// What a grounded critter is up to (see the behaviour section)
+export type Behaviour = 'wander' | 'forage' | 'sleep' | 'seekFriend' | 'explore' | 'flee'
+
+// Inherited traits; a critter's body type, size and color are expressed from these at birth
+export interface Genome {
+  legPairs: number // 0 worm, 1 biped, 2 quadruped, 3+ insect
+  legLength: number // relative to the usual leg for the body type
+  size: number
+  hue: number // 0..1
+  ears: number // ear size, 0 for none
+  temperament: number // 0 timid, 1 bold
+}
+
+// All 0..1
+export interface Needs {
+  hunger: number // 0 full, 1 starving
+  energy: number // 0 exhausted, 1 rested
+  sociability: number // 0 had enough company, 1 lonely
+  curiosity: number // 0 content, 1 itching to see somewhere new
+}
+
+export interface Critter {
+  name: string
+  genome: Genome
+  bodyType: BodyType
+  hue: number
+  sizeScale: number
+  state: CritterState
+  targetPlanet: Planet | null
+  homePlanet: Planet
+  position: THREE.Vector3
+  quaternion: THREE.Quaternion
+  velocity: THREE.Vector3 // in flight; on the ground, how fast it's still sliding after a hard landing
+  tumble: THREE.Vector3 // angular velocity after a knock in flight, radians per second
+  stunned: number // seconds left dazed after a hard landing
+  surfaceOffset: number
+  wanderPhase: number
+  gaitPhase: number
+  excitement: number // follows the critter's needs and behaviour; sets its pace and gait
+  behaviour: Behaviour
+  behaviourTime: number // seconds in the current behaviour
+  needs: Needs
+  visited: string[] // planet names, in the order first set foot on
+  likes: Record<string, number> // critter name -> fondness, -1..1
+  leapHits: number // leaps that landed on the planet they were aimed at
+  leapMisses: number
+  socialTarget: Critter | null // the friend it's seeking
+  destination: Planet | null // where it's been sent (see sendCritterTo); it leaps as soon as it's in reach
+  nextSocialTime: number // seconds until it wants company again
+  age: number // seconds
+  lifespan: number // seconds; avatars live on while a player steers them
+  generation: number // 0 for the founders
+  parents: string[] // names
+  owner: string | null // player steering this critter, if any
+  spawnedAvatar: boolean // created for a player (removed when they leave) rather than adopted
+}
+
+export interface SimParams {
+  timeScale: number
+  gravityGlobal: number // base strength of inter-planet gravity for critters
+  leapImpulse: number // initial jump impulse
+  spaceDrag: number // per second (exponential decay rate); slows critters in space so they arc nicely
+  stickiness: number // how quickly critters align to surfaces
+  wanderSpeed: number // how fast grounded critters meander
+  lifespan: number // average critter lifetime in seconds
+  populationCap: number // most critters a planet can hold before births stop
+  orbitMode: number // one of orbitModes
+  orbitEccentricity: number // squash of programmed orbits; Kepler/N-body eccentricity for planets that don't set one
+  planetMass: number // N-body: gravitational mass per unit of a planet's gravityStrength
+  fruitGrowth: number // fruit a tree ripens per minute, in rich soil at sunlightDistance from the star
+  restitution: number // bounciness of hard landings and knocks in flight, 0..1
+}
+
+// How planets and moons move:
+// - programmed: fixed ellipses centred on the star, steady speed (stable, the classic look)
+// - kepler: ellipses with the star at a focus, sweeping equal areas in equal times
+// - nbody: integrated, with the planets and moons pulling on each other too
+export const orbitModes = { programmed: 0, kepler: 1, nbody: 2 } as const
+
+export interface PlayerInput {
+  forward: number // -1..1, walk along the critter's heading
+  turn: number // -1..1, turn about the local up axis
+  leap: boolean
+  adopt: THREE.Vector3 | null // swap to the unclaimed critter nearest this point
+}
+
+// Things the renderer (or a test) may want to react to; drained by whoever observes the world
+export type SimEvent =
+  | { type: 'landed'; critter: Critter; hit: boolean | null; impact: number } // hit: reached targetPlanet (null for unaimed leaps); impact: speed into the ground
+  | { type: 'leapt'; critter: Critter }
+  | { type: 'met'; critter: Critter; friend: Critter }
+  | { type: 'ate'; critter: Critter }
+  | { type: 'born'; critter: Critter }
+  | { type: 'died'; critter: Critter }
+
+export interface World {
+  seed: string
+  params: SimParams
+  star: StarSpec
+  time: number // orbit clock
+  integrating: boolean // N-body velocities are live; cleared when the system or orbit mode changes
+  planets: Planet[]
+  moons: Moon[]
+  critters: Critter[]
+  inputs: Map<string, PlayerInput>
+  random: RandomStream // simulation stream (leaps, spawns, moon phases)
+  events: SimEvent[]
+}
+
+// ---------- Limits ----------
+// How big a world can get, shared by system files, saves and snapshots so that whatever one of
+// them accepts the others carry too
+export const maxPlanets = 16
+export const maxMoons = 8 // per planet
+export const maxCritters = 4096 // in the whole world
+export const maxNameLength = 32 // planets, critters, players and presets
+export const maxSeedLength = 128
+
+// ---------- Defaults ----------
+export const defaultParams: SimParams = {
+  timeScale: 1.0,
+  gravityGlobal: 70,
+  leapImpulse: 24,
+  spaceDrag: 1.2,
+  stickiness: 16,
+  wanderSpeed: 0.8,
+  lifespan: 600,
+  populationCap: 10,
+  orbitMode: orbitModes.programmed,
+  orbitEccentricity: 0.12,
+  planetMass: 0.2,
+  fruitGrowth: 0.1,
+  restitution: 0.4,
+}
+
+// [min, max, step] for each tuning knob: the GUI's sliders, and what files, links and peers may set
+export const paramRanges: Record<keyof SimParams, [number, number, number]> = {
+  timeScale: [0.2, 2, 0.01],
+  gravityGlobal: [10, 200, 1],
+  leapImpulse: [6, 60, 1],
+  spaceDrag: [0, 6, 0.01],
+  stickiness: [4, 40, 1],
+  wanderSpeed: [0, 3, 0.01],
+  lifespan: [60, 3600, 10],
+  populationCap: [1, 32, 1],
+  orbitMode: [orbitModes.programmed, orbitModes.nbody, 1],
+  orbitEccentricity: [0, 0.6, 0.01],
+  planetMass: [0, 5, 0.01],
+  fruitGrowth: [0, 2, 0.01],
+  restitution: [0, 0.9, 0.01],
+}
+
+export const defaultStar: StarSpec = { temperature: 4200, radius: 6 }
+
+// A few colorful planets with different gravity strengths
+export const defaultPlanets: PlanetSpec[] = [
+  { name: 'Cobalt', radius: 6, color: 0x6ea8ff, orbitalRadius: 40, orbitalSpeed: 0.25, axialTilt: THREE.MathUtils.degToRad(18), rotationSpeed: 0.3, gravityStrength: 22 },
+  { name: 'Saffron', radius: 4.5, color: 0xffb347, orbitalRadius: 66, orbitalSpeed: 0.18, axialTilt: THREE.MathUtils.degToRad(8), rotationSpeed: 0.45, gravityStrength: 16, ring: { inner: 1.5, outer: 2.4, tiltDeg: 75 } },
+  { name: 'Viridian', radius: 3.8, color: 0x95e78f, orbitalRadius: 90, orbitalSpeed: 0.14, axialTilt: THREE.MathUtils.degToRad(25), rotationSpeed: 0.35, gravityStrength: 12 },
+  { name: 'Rose', radius: 3.2, color: 0xff7aa2, orbitalRadius: 115, orbitalSpeed: 0.11, axialTilt: THREE.MathUtils.degToRad(5), rotationSpeed: 0.55, gravityStrength: 10 },
+]
+
+// A couple of moons
+export const defaultMoons: MoonSpec[] = [
+  { planet: 'Cobalt', radius: 1.1, orbitRadius: 6 + 7, speed: 1.6, tiltDeg: 25 },
+  { planet: 'Viridian', radius: 0.9, orbitRadius: 3.8 + 5.5, speed: 1.2, tiltDeg: -15 },
+]
+
+export const critterNames = ['Scrappybara', 'Blanca', 'Diagaur', 'Mochi', 'Pip', 'Nori', 'Boba', 'Zuzu', 'Mimi', 'Peanut', 'Luna', 'Kiki']
+
+const sunPosition = new THREE.Vector3(0, 0, 0)
+const xAxis = new THREE.Vector3(1, 0, 0)
+const yAxis = new THREE.Vector3(0, 1, 0)
+const avatarTurnSpeed = 2.4 // radians per second
+const avatarAdoptRange = 15
+const predictionStep = 1 / 30 // coarser than the sim step; plenty for aiming
+const predictionHorizon = 6 // seconds of flight worth predicting
+const leapAimAttempts = 5
+const leapSolveBudget = 8 // trial leaps wild critters may aim per tick; the rest try again later
+const minLaunchUp = 0.2 // leaps go at least this far up from the ground (cosine)
+const meetDistance = 3 // close enough to count as spending time together
+const maturity = 45 // seconds old before a critter can have young
+const mutation = 0.08 // how far a gene can stray from its parents', as a fraction of its range
+const fleeDistance = 5 // how close an unwelcome avatar or incoming critter gets before critters scarper
+const separationDistance = 3 // critters closer than this on the ground edge apart
+const maxNeighbours = 12 // most critters one weighs for separation each tick, so crowds stay linear
+export const hoverHeight = 1.4 // critters' centres ride this far above the ground, times their size
+export const maxFruit = 3 // per tree
+export const maxTrees = 1024 // per planet, however dense its treeDensity asks for
+const sunlightDistance = 50 // fruit grows at the fruitGrowth rate this far from the star
+const eatDistance = 1.5 // how close to a tree a critter has to be to pick its fruit
+const mealTime = 2 // seconds foraging before each fruit, so a meal is one fruit rather than one per tick
+export const gentleLanding = 4 // impact speeds up to this are a soft touchdown
+const stunSpeed = 8 // harder than this and a critter lands dazed
+const bounceSpeed = 12 // harder still and it bounces back up
+const maxStun = 2.5 // seconds
+const slideFriction = 3 // per second; how quickly a hard lander stops sliding
+const tumbleDrag = 0.8 // per second
+
+// Scratch vectors for the per-critter hot paths, so a busy tick doesn't churn the garbage collector
+const _toPlanet = new THREE.Vector3()
+const _gravity = new THREE.Vector3()
+const _flightFrom = new THREE.Vector3()
+const _stickUp = new THREE.Vector3()
+const _stickAt = new THREE.Vector3()
+const _stickForward = new THREE.Vector3()
+const _stickRight = new THREE.Vector3()
+const _stickQuat = new THREE.Quaternion()
+const _stickBasis = new THREE.Matrix4()
+const _moveUp = new THREE.Vector3()
+const _moveTangent = new THREE.Vector3()
+const _moveBitangent = new THREE.Vector3()
+const _moveWander = new THREE.Vector3()
+const _moveSeparation = new THREE.Vector3()
+const _moveAway = new THREE.Vector3()
+const _moveDir = new THREE.Vector3()
+const _cellAt = new THREE.Vector3()
+const _behaviourUp = new THREE.Vector3()
+const _behaviourSun = new THREE.Vector3()
+const _behaviourGoal = new THREE.Vector3()
+const _forageUp = new THREE.Vector3()
+const _setOffUp = new THREE.Vector3()
+const _setOffTo = new THREE.Vector3()
+const _setOffVelocity = new THREE.Vector3()
+const _leapAim = new THREE.Vector3()
+const _launchUp = new THREE.Vector3()
+const _landNormal = new THREE.Vector3()
+const _landRelative = new THREE.Vector3()
+const _bodyVelocity = new THREE.Vector3()
+const _spinAxis = new THREE.Vector3()
+const _spinQuat = new THREE.Quaternion()
+const _recoverUp = new THREE.Vector3()
+const _reboundRelative = new THREE.Vector3()
+const _reboundAcross = new THREE.Vector3()
+const _moonOffset = new THREE.Vector3()
+const _ringNormal = new THREE.Vector3()
+const _ringWas = new THREE.Vector3()
+const _ringNow = new THREE.Vector3()
+const _bumpNormal = new THREE.Vector3()
+const _bumpRelative = new THREE.Vector3()
+const _steerUp = new THREE.Vector3()
+const _steerForward = new THREE.Vector3()
+const _steerQuat = new THREE.Quaternion()
+// A shared list for maybeSetOff's `only`, filled just before each call
+const _onlyPlanets: Planet[] = []
+
+// ---------- World ----------
+export interface WorldOptions {
+  seed?: string
+  params?: Partial<SimParams>
+  star?: StarSpec
+  planets?: PlanetSpec[]
+  moons?: MoonSpec[]
+  crittersPerPlanet?: number // for planets that don't set their own population
+}
+
+export function createWorld(options: WorldOptions = {}): World {
+  const seed = options.seed ?? 'default'
+  const world: World = {
+    seed,
+    params: { ...defaultParams },
+    star: defaultStar,
+    time: 0,
+    integrating: false,
+    planets: [],
+    moons: [],
+    critters: [],
+    inputs: new Map(),
+    random: simStream(seed),
+    events: [],
+  }
+  resetWorld(world, options)
+  return world
+}
+
+// Start the world over with a new system and tuning (the seed and random stream carry on)
+export function resetWorld(world: World, options: Omit<WorldOptions, 'seed'>) {
+  Object.assign(world.params, defaultParams, options.params)
+  world.star = options.star ?? defaultStar
+  world.time = 0
+  world.critters = []
+  world.events.length = 0
+  setSystem(world, options.planets ?? defaultPlanets, options.moons ?? defaultMoons)
+
+  // Spawn critters across planets
+  world.planets.forEach((p, i) => {
+    const count = p.critters ?? options.crittersPerPlanet ?? 2
+    for (let k = 0; k < count && world.critters.length < maxCritters; k++) {
+      const name = uniqueCritterName(world, critterNames[(i * 3 + k) % critterNames.length])
+      const c = spawnCritter(world, name, p, randomGenome(world.random, ((i * 3 + k) % critterNames.length) / critterNames.length))
+      // Founders start at different ages so they don't all grow old together
+      c.age = world.random() * c.lifespan * 0.5
+    }
+  })
+}
+
+// Replace the planets and moons (critters are left alone; their planets may no longer exist)
+export function setSystem(world: World, planets: PlanetSpec[], moons: MoonSpec[]) {
+  world.planets = planets.map((spec, index) => ({ ...spec, index, position: new THREE.Vector3(), velocity: new THREE.Vector3(), spin: 0, spinPhase: 0, trees: [] }))
+  for (const p of world.planets) p.trees = plantTrees(world, p)
+  world.integrating = false
+  world.moons = []
+  for (const spec of moons) {
+    const planet = findPlanet(world, spec.planet)
+    if (!planet) continue
+    world.moons.push({
+      planet,
+      radius: spec.radius,
+      orbitRadius: spec.orbitRadius,
+      speed: spec.speed,
+      angle: 0,
+      phase: world.random() * Math.PI * 2,
+      tilt: THREE.MathUtils.degToRad(spec.tiltDeg),
+      position: new THREE.Vector3(),
+      velocity: new THREE.Vector3(),
+    })
+  }
+  updateOrbits(world, 0)
+}
+
+function simStream(seed: string) {
+  return mulberry32(hashStringToInt32(`${seed}:sim`))
+}
+
+// Restart the simulation random stream for a new seed
+export function reseed(world: World, seed: string) {
+  world.seed = seed
+  world.random = simStream(seed)
+}
+
+export function stepWorld(world: World, dt: number) {
+  world.time += dt
+  const before = rememberBodies(world)
+  updateOrbits(world, dt)
+  // Critters on the ground ride along with their planet rather than being dragged to its trailing side
+  for (const c of world.critters) {
+    if (c.state === 'grounded') c.position.add(c.homePlanet.position).sub(before.planets[c.homePlanet.index])
+  }
+  growFruit(world, dt)
+  stepping = world
+  leapSolvesLeft = leapSolveBudget
+  stepCritters(world, dt, before)
+  ageCritters(world, dt)
+  stepping = null
+  sweepLeaving(world)
+}
+
+// Move planets and moons along their orbits for the current clock (or, in N-body mode, by dt).
+// Clients that only mirror a host call this on their own with the host's clock.
+export function updateOrbits(world: World, dt: number) {
+  const mode = world.params.orbitMode
+  if (mode === orbitModes.nbody) {
+    if (!world.integrating) startIntegrating(world)
+    integrateBodies(world, dt)
+  } else {
+    world.integrating = false
+    for (const p of world.planets) {
+      if (mode === orbitModes.kepler) keplerState(world, p, p.orbitalSpeed, p.position)
+      else programmedPosition(world, p, p.position)
+    }
+    for (const m of world.moons) {
+      m.angle = moonAngle(world, m)
+      moonOffset(m, m.position).add(m.planet.position)
+    }
+  }
+  // Spin follows the clock rather than adding up steps, so clients that only mirror the host's
+  // clock turn their terrain and trees exactly as the host's do
+  for (const p of world.planets) p.spin = p.spinPhase + p.rotationSpeed * world.time
+}
+
+// Simple elliptical programmed orbits for stability
+function programmedPosition(world: World, p: Planet, target: THREE.Vector3): THREE.Vector3 {
+  const e = world.params.orbitEccentricity
+  const a = p.orbitalRadius
+  const b = a * (1 - e)
+  const angle = world.time * p.orbitalSpeed + p.index * 0.6
+  return target.set(a * Math.cos(angle), 0, b * Math.sin(angle))
+}
+
+// Moons keep to circles, so their angle is a steady function of the clock like the planets'
+function moonAngle(world: World, m: Moon): number {
+  return m.phase + (m.speed / 6) * world.time
+}
+
+function moonOffset(m: Moon, target: THREE.Vector3): THREE.Vector3 {
+  return target.set(m.orbitRadius * Math.cos(m.angle), 0, m.orbitRadius * Math.sin(m.angle)).applyAxisAngle(xAxis, m.tilt)
+}
+
+// ---------- Kepler orbits ----------
+// Position (and optionally velocity) on the planet's Kepler ellipse for the current clock.
+// `meanMotion` is the average angular speed; orbitalSpeed in Kepler mode, the star's pull in N-body mode.
+function keplerState(world: World, p: Planet, meanMotion: number, position: THREE.Vector3, velocity?: THREE.Vector3) {
+  const e = THREE.MathUtils.clamp(p.eccentricity ?? world.params.orbitEccentricity, 0, 0.95)
+  const a = p.orbitalRadius
+  const b = a * Math.sqrt(1 - e * e)
+  // Mean anomaly grows steadily; solve Kepler's equation M = E - e sin E for the eccentric anomaly
+  const M = world.time * p.orbitalSpeed + p.index * 0.6
+  let E = e < 0.8 ? M : Math.PI
+  for (let i = 0; i < 8; i++) E -= (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E))
+  const cosE = Math.cos(E)
+  const sinE = Math.sin(E)
+
+  // In the orbit plane the star sits at a focus and periapsis points along +x, then the plane is
+  // turned to its argument of periapsis and tilted by its inclination
+  const periapsis = -(p.periapsis ?? 0)
+  const inclination = p.inclination ?? 0
+  position.set(a * (cosE - e), 0, b * sinE).applyAxisAngle(yAxis, periapsis).applyAxisAngle(xAxis, inclination)
+  if (velocity) {
+    const dE = meanMotion / (1 - e * cosE)
+    velocity.set(-a * sinE * dE, 0, b * cosE * dE).applyAxisAngle(yAxis, periapsis).applyAxisAngle(xAxis, inclination)
+  }
+}
+
+// ---------- N-body orbits ----------
+// Leapfrog (kick-drift-kick), which keeps orbits from slowly gaining or losing energy. The star
+// outweighs everything and stays put at the origin. Moons are integrated around their planet under
+// its pull alone: at these toy distances the star's and the neighbours' tides would strip them away.
+
+// One star mass has to serve every planet, so fit it to their configured periods (n² a³ = GM);
+// the geometric mean keeps each planet's pace close to what its system file asks for
+function starMass(world: World): number {
+  if (world.planets.length === 0) return 0
+  let log = 0
+  for (const p of world.planets) log += Math.log(p.orbitalSpeed ** 2 * p.orbitalRadius ** 3)
+  return Math.exp(log / world.planets.length)
+}
+
+function planetMass(world: World, p: Planet): number {
+  return world.params.planetMass * p.gravityStrength
+}
+
+function moonMass(world: World, m: Moon): number {
+  return world.params.planetMass * 3.5 * m.radius // same rough gravity-per-size as the planets
+}
+
+// The planet-moon pair's pull, fitted to the moon's configured pace like the star's
+function moonPairMass(m: Moon): number {
+  return (m.speed / 6) ** 2 * m.orbitRadius ** 3
+}
+
+// Start from where the bodies are, moving as their Kepler orbits would under the fitted star
+function startIntegrating(world: World) {
+  const gm = starMass(world)
+  for (const p of world.planets) keplerState(world, p, Math.sqrt(gm / p.orbitalRadius ** 3), p.position, p.velocity)
+  for (const m of world.moons) {
+    m.angle = moonAngle(world, m)
+    moonOffset(m, m.position).add(m.planet.position)
+    // Circular orbit: speed sqrt(GM/r), along the direction the angle grows
+    m.velocity.set(-Math.sin(m.angle), 0, Math.cos(m.angle)).applyAxisAngle(xAxis, m.tilt)
+      .multiplyScalar(Math.sqrt(moonPairMass(m) / m.orbitRadius))
+  }
+  world.integrating = true
+}
+
+function integrateBodies(world: World, dt: number) {
+  kickBodies(world, dt / 2)
+  for (const m of world.moons) m.position.sub(m.planet.position).addScaledVector(m.velocity, dt)
+  for (const p of world.planets) p.position.addScaledVector(p.velocity, dt)
+  for (const m of world.moons) m.position.add(m.planet.position)
+  kickBodies(world, dt / 2)
+}
+
+function kickBodies(world: World, dt: number) {
+  for (const m of world.moons) {
+    const d = _toBody.subVectors(m.planet.position, m.position)
+    const d2 = Math.max(d.lengthSq(), (m.planet.radius + m.radius) ** 2)
+    m.velocity.addScaledVector(d, (moonPairMass(m) / (d2 * Math.sqrt(d2))) * dt)
+  }
+
+  const gm = starMass(world)
+  // Planets all pull at once, from where everyone was at the start of the kick
+  world.planets.forEach((p, i) => {
+    const r2 = Math.max(p.position.lengthSq(), 1e-4)
+    const pull = (_pulls[i] ??= new THREE.Vector3()).copy(p.position).multiplyScalar(-gm / (r2 * Math.sqrt(r2)))
+    for (const o of world.planets) if (o !== p) pullToward(pull, p, o, planetMass(world, o))
+    for (const m of world.moons) pullToward(pull, p, m, moonMass(world, m))
+  })
+  world.planets.forEach((p, i) => p.velocity.addScaledVector(_pulls[i], dt))
+}
+
+// Softened so bodies passing through each other don't fling apart
+function pullToward(pull: THREE.Vector3, p: Planet, body: Planet | Moon, mass: number) {
+  const d = _toBody.subVectors(body.position, p.position)
+  const d2 = Math.max(d.lengthSq(), (body.radius + p.radius) ** 2)
+  pull.addScaledVector(d, mass / (d2 * Math.sqrt(d2)))
+}
+const _toBody = new THREE.Vector3()
+const _pulls: THREE.Vector3[] = [] // kickBodies' pull on each planet
+
+// The planet's definition, without its running state
+export function planetSpecOf(p: Planet): PlanetSpec {
+  const spec: PlanetSpec = {
+    name: p.name,
+    radius: p.radius,
+    color: p.color,
+    orbitalRadius: p.orbitalRadius,
+    orbitalSpeed: p.orbitalSpeed,
+    axialTilt: p.axialTilt,
+    rotationSpeed: p.rotationSpeed,
+    gravityStrength: p.gravityStrength,
+  }
+  if (p.eccentricity !== undefined) spec.eccentricity = p.eccentricity
+  if (p.inclination !== undefined) spec.inclination = p.inclination
+  if (p.periapsis !== undefined) spec.periapsis = p.periapsis
+  if (p.ring) spec.ring = { ...p.ring }
+  if (p.treeDensity !== undefined) spec.treeDensity = p.treeDensity
+  if (p.atmosphereColor !== undefined) spec.atmosphereColor = p.atmosphereColor
+  if (p.atmosphereDensity !== undefined) spec.atmosphereDensity = p.atmosphereDensity
+  if (p.critters !== undefined) spec.critters = p.critters
+  return spec
+}
+
+export function findPlanet(world: World, name: string | null): Planet | null {
+  if (!name) return null
+  return world.planets.find(p => p.name === name) || null
+}
+
+// ---------- Critters ----------
+export function spawnCritter(world: World, name: string, homePlanet: Planet, genome: Genome): Critter {
+  const sizeScale = genome.size
+  const critter: Critter = {
+    name,
+    genome,
+    bodyType: bodyTypeOf(genome),
+    hue: genome.hue,
+    sizeScale,
+    state: 'grounded',
+    targetPlanet: null,
+    homePlanet,
+    position: new THREE.Vector3(),
+    quaternion: new THREE.Quaternion(),
+    velocity: new THREE.Vector3(),
+    tumble: new THREE.Vector3(),
+    stunned: 0,
+    surfaceOffset: hoverHeight * sizeScale,
+    wanderPhase: world.random() * Math.PI * 2,
+    gaitPhase: world.random() * Math.PI * 2,
+    excitement: world.random() * 0.6 + 0.2,
+    behaviour: 'wander',
+    behaviourTime: 0,
+    needs: {
+      hunger: world.random() * 0.4,
+      energy: 0.6 + world.random() * 0.4,
+      sociability: world.random() * 0.5,
+      curiosity: world.random() * 0.5,
+    },
+    visited: [homePlanet.name],
+    likes: {},
+    leapHits: 0,
+    leapMisses: 0,
+    socialTarget: null,
+    destination: null,
+    nextSocialTime: 1 + world.random() * 3,
+    age: 0,
+    lifespan: world.params.lifespan * THREE.MathUtils.lerp(0.75, 1.25, world.random()),
+    generation: 0,
+    parents: [],
+    owner: null,
+    spawnedAvatar: false,
+  }
+
+  // Place on home planet surface at random longitude
+  const a = world.random() * Math.PI * 2
+  const normal = new THREE.Vector3(Math.cos(a), 0, Math.sin(a)).normalize()
+  critter.position.copy(homePlanet.position).add(normal.multiplyScalar(surfaceRadius(world, homePlanet, normal) + critter.surfaceOffset))
+
+  world.critters.push(critter)
+  return critter
+}
+
+// Give a critter a new name, keeping everyone's fondness for it and its children's record of it.
+// Names identify critters (saves, snapshots), so they have to be unique.
+export function renameCritter(world: World, critter: Critter, name: string): boolean {
+  name = name.trim()
+  if (!name || world.critters.some(c => c !== critter && c.name === name)) return false
+  const old = critter.name
+  for (const c of world.critters) {
+    if (old in c.likes) {
+      c.likes[name] = c.likes[old]
+      delete c.likes[old]
+    }
+    c.parents = c.parents.map(p => p === old ? name : p)
+  }
+  critter.name = name
+  return true
+}
+
+// Critters leaving mid-step (the old passing away, a spawned avatar given up for another critter)
+// are swept out together once the step is over, so the step can walk the list by index
+const leaving = new Set<Critter>()
+let stepping: World | null = null
+let leapSolvesLeft = 0 // this tick's share of leapSolveBudget
+
+export function removeCritter(world: World, c: Critter) {
+  if (stepping === world) {
+    leaving.add(c)
+    return
+  }
+  const i = world.critters.indexOf(c)
+  if (i >= 0) world.critters.splice(i, 1)
+  for (const other of world.critters) if (other.socialTarget === c) other.socialTarget = null
+}
+
+function sweepLeaving(world: World) {
+  if (leaving.size === 0) return
+  let kept = 0
+  for (let i = 0; i < world.critters.length; i++) {
+    const c = world.critters[i]
+    if (leaving.has(c)) continue
+    if (c.socialTarget && leaving.has(c.socialTarget)) c.socialTarget = null
+    world.critters[kept++] = c
+  }
+  world.critters.length = kept
+  leaving.clear()
+}
+
+export function getCombinedGravityAtPoint(world: World, point: THREE.Vector3, target = new THREE.Vector3()): THREE.Vector3 {
+  target.set(0, 0, 0)
+  for (const p of world.planets) {
+    const toPlanet = _toPlanet.subVectors(p.position, point)
+    const d2 = Math.max(toPlanet.lengthSq(), 1e-2)
+    const strength = (world.params.gravityGlobal * p.gravityStrength) / d2
+    target.addScaledVector(toPlanet.normalize(), strength)
+  }
+  return target
+}
+
+export function findNearestPlanet(world: World, point: THREE.Vector3): { planet: Planet; dist: number; normal: THREE.Vector3 } {
+  const planet = nearestPlanetTo(world, point)
+  return { planet, dist: point.distanceTo(planet.position) - planet.radius, normal: new THREE.Vector3().subVectors(point, planet.position).normalize() }
+}
+
+function nearestPlanetTo(world: World, point: THREE.Vector3): Planet {
+  let best: Planet = world.planets[0]
+  let bestDist = Infinity
+  for (const p of world.planets) {
+    const d = point.distanceTo(p.position) - p.radius
+    if (d < bestDist) {
+      best = p
+      bestDist = d
+    }
+  }
+  return best
+}
+
+// ---------- Spatial index ----------
+// Rebuilt once per tick so neighbour and planet lookups don't scan every critter. Each critter is
+// bucketed under the planet it's nearest (and so standing on, if grounded), in a grid of cells
+// around that planet's centre. Avatars and critters in flight, the only ones anybody flees from or
+// bumps into, get a grid of their own (and a list per planet, quicker while they are few). Critters
+// move a little during the tick, so lookups pad their radius.
+interface SpatialIndex {
+  planetOf: Map<Critter, Planet>
+  cells: Map<number, Critter[]>
+  movers: Map<number, Critter[]> // avatars and critters in flight
+  moversNear: Critter[][] // by planet index: the same, unbucketed
+  spare: Critter[][] // emptied cell lists, reused next tick
+  residents: Critter[][] // by planet index: the critters nearest each planet
+  homes: number[] // by planet index: critters that call it home, kept up to date with births
+  byName: Map<string, Critter>
+}
+
+const cellSize = 3.5 // about the separation range, so most lookups touch a handful of cells
+const indexes = new WeakMap<World, SpatialIndex>()
+const found: Critter[] = []
+
+// Cells wrap every 256 along each axis (and planets every 64); critters that far apart only share a
+// list, never a result. Packed into 30 bits, the keys stay small integers, which Maps look up fastest.
+function cellKey(planet: Planet, x: number, y: number, z: number): number {
+  return (planet.index & 63) << 24 | (x & 255) << 16 | (y & 255) << 8 | (z & 255)
+}
+
+function indexCritters(world: World): SpatialIndex {
+  let index = indexes.get(world)
+  if (!index) {
+    index = { planetOf: new Map(), cells: new Map(), movers: new Map(), moversNear: [], spare: [], residents: [], homes: [], byName: new Map() }
+    indexes.set(world, index)
+  }
+  index.planetOf.clear()
+  index.byName.clear()
+  index.residents.length = index.moversNear.length = index.homes.length = world.planets.length
+  for (let i = 0; i < world.planets.length; i++) {
+    index.residents[i] ??= []
+    index.residents[i].length = 0
+    index.moversNear[i] ??= []
+    index.moversNear[i].length = 0
+    index.homes[i] = 0
+  }
+  for (const grid of [index.cells, index.movers]) {
+    for (const list of grid.values()) {
+      list.length = 0
+      index.spare.push(list)
+    }
+    grid.clear()
+  }
+  for (const c of world.critters) {
+    const planet = nearestPlanetTo(world, c.position)
+    index.planetOf.set(c, planet)
+    index.residents[planet.index].push(c)
+    index.byName.set(c.name, c)
+    if (!leaving.has(c)) index.homes[c.homePlanet.index]++
+    const at = _cellAt.subVectors(c.position, planet.position).divideScalar(cellSize)
+    const key = cellKey(planet, Math.floor(at.x), Math.floor(at.y), Math.floor(at.z))
+    addToCell(index, index.cells, key, c)
+    if (c.owner || c.state !== 'grounded') {
+      addToCell(index, index.movers, key, c)
+      index.moversNear[planet.index].push(c)
+    }
+  }
+  return index
+}
+
+function addToCell(index: SpatialIndex, grid: Map<number, Critter[]>, key: number, c: Critter) {
+  let list = grid.get(key)
+  if (!list) {
+    list = index.spare.pop() ?? []
+    grid.set(key, list)
+  }
+  list.push(c)
+}
+
+function spatialIndex(world: World): SpatialIndex {
+  return indexes.get(world) ?? indexCritters(world)
+}
+
+// The planet a critter was nearest at the start of the tick
+function planetOf(world: World, c: Critter): Planet {
+  return spatialIndex(world).planetOf.get(c) ?? nearestPlanetTo(world, c.position)
+}
+
+// Critters around `planet` that may be within `radius` of a point (callers check the distance);
+// only avatars and critters in flight, for `movers`, and no more than `limit`. The list is shared:
+// use it before the next lookup.
+function nearbyCritters(world: World, planet: Planet, point: THREE.Vector3, radius: number, movers = false, limit = Infinity): Critter[] {
+  const index = spatialIndex(world)
+  const cells = movers ? index.movers : index.cells
+  found.length = 0
+  const at = _cellAt.subVectors(point, planet.position)
+  const x0 = Math.floor((at.x - radius) / cellSize), x1 = Math.floor((at.x + radius) / cellSize)
+  const y0 = Math.floor((at.y - radius) / cellSize), y1 = Math.floor((at.y + radius) / cellSize)
+  const z0 = Math.floor((at.z - radius) / cellSize), z1 = Math.floor((at.z + radius) / cellSize)
+  // A handful of movers are quicker to hand over whole than to look up cell by cell
+  const near = index.moversNear[planet.index]
+  if (movers && near.length <= (x1 - x0 + 1) * (y1 - y0 + 1) * (z1 - z0 + 1)) {
+    for (let i = 0; i < near.length && i < limit; i++) found.push(near[i])
+    return found
+  }
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) {
+      for (let z = z0; z <= z1; z++) {
+        const list = cells.get(cellKey(planet, x, y, z))
+        if (!list) continue
+        for (const c of list) {
+          if (found.length >= limit) return found
+          found.push(c)
+        }
+      }
+    }
+  }
+  return found
+}
+
+function stickToPlanetSurface(world: World, critter: Critter, planet: Planet, delta: number) {
+  const pw = planet.position
+  const surfacePoint = _stickUp.subVectors(critter.position, pw)
+  surfacePoint.setLength(surfaceRadius(world, planet, surfacePoint) + critter.surfaceOffset)
+  const desired = _stickAt.addVectors(pw, surfacePoint)
+  critter.position.lerp(desired, Math.min(1, world.params.stickiness * delta))
+
+  // Align up-axis smoothly
+  const up = surfacePoint.normalize()
+  const forward = _stickForward.set(0, 0, 1).applyQuaternion(critter.quaternion)
+  const right = _stickRight.crossVectors(up, forward).normalize()
+  forward.crossVectors(right, up).normalize()
+
+  _stickQuat.setFromRotationMatrix(_stickBasis.makeBasis(right, up, forward))
+  critter.quaternion.slerp(_stickQuat, 4 * delta)
+}
+
+// Walk along the surface: meandering noise, pulled toward `goal` (a world-space direction, if any)
+// and pushed apart from close neighbours. `pace` scales the critter's walking speed.
+function moveOnSurface(world: World, critter: Critter, planet: Planet, goal: THREE.Vector3 | null, pace: number, delta: number) {
+  if (pace <= 0) return
+  critter.wanderPhase += delta * world.params.wanderSpeed
+  critter.gaitPhase += delta * (1.5 + 2.0 * critter.excitement) * Math.min(pace, 1)
+  const up = _moveUp.subVectors(critter.position, planet.position).normalize()
+  const tangent = _moveTangent.crossVectors(up, yAxis)
+  if (tangent.lengthSq() < 1e-5) tangent.set(1, 0, 0)
+  tangent.normalize()
+  const bitangent = _moveBitangent.crossVectors(up, tangent)
+  const wander = _moveWander.copy(tangent).multiplyScalar(Math.cos(critter.wanderPhase))
+    .addScaledVector(bitangent, Math.sin(critter.wanderPhase * 0.7))
+  const separation = _moveSeparation.set(0, 0, 0)
+  // In a crowd the first few are enough to push away from
+  for (const other of nearbyCritters(world, planet, critter.position, separationDistance + 0.5, false, maxNeighbours + 1)) {
+    if (other === critter || other === critter.socialTarget) continue
+    const d = critter.position.distanceTo(other.position)
+    if (d < separationDistance && d > 1e-3) {
+      const away = tangential(_moveAway.subVectors(critter.position, other.position).normalize(), up)
+      separation.addScaledVector(away, (separationDistance - d) / separationDistance)
+    }
+  }
+
+  const dir = _moveDir.set(0, 0, 0)
+    .addScaledVector(wander.normalize(), goal ? 0.5 : 1.0)
+    .addScaledVector(separation.normalize(), 0.8 + 0.8 * critter.excitement)
+  if (goal) dir.addScaledVector(tangential(_moveAway.copy(goal), up).normalize(), 1.2)
+  dir.normalize()
+
+  const speed = (2.0 + 2.2 * critter.excitement) * pace
+  critter.position.addScaledVector(dir, speed * delta)
+}
+
+// The part of v along the ground (perpendicular to up), in place
+function tangential(v: THREE.Vector3, up: THREE.Vector3): THREE.Vector3 {
+  return v.addScaledVector(up, -v.dot(up))
+}
+
+// ---------- Behaviour ----------
+// Needs drift over time; each step the critter weighs them and picks what to do, with a bonus for
+// carrying on so it doesn't flicker between choices. Excitement follows along.
+const needRates = {
+  hunger: 0.012, // per second, so a critter gets properly hungry in a minute or so
+  energy: 0.01, // lost while awake
+  rest: 0.06, // regained while asleep on the night side
+  meal: 0.45, // hunger one fruit takes away
+  sociability: 0.012,
+  curiosity: 0.015,
+}
+
+const needKeys: (keyof Needs)[] = ['hunger', 'energy', 'sociability', 'curiosity']
+const behaviours: Behaviour[] = ['wander', 'forage', 'sleep', 'seekFriend', 'explore', 'flee']
+const scores: Record<Behaviour, number> = { wander: 0, forage: 0, sleep: 0, seekFriend: 0, explore: 0, flee: 0 }
+
+function updateBehaviour(world: World, critter: Critter, planet: Planet, delta: number) {
+  const needs = critter.needs
+  const up = _behaviourUp.subVectors(critter.position, planet.position).normalize()
+  const sunDir = _behaviourSun.subVectors(sunPosition, planet.position).normalize()
+  const daylight = up.dot(sunDir) // 1 at noon, -1 at midnight
+  // Night moves on as the planet orbits, so sleepers doze anywhere past dusk and shuffle deeper into it
+  const asleep = critter.behaviour === 'sleep' && daylight < -0.2
+
+  needs.hunger += needRates.hunger * (asleep ? 0.5 : 1) * delta
+  needs.energy += (asleep ? needRates.rest : -needRates.energy) * delta
+  needs.sociability += needRates.sociability * delta
+  needs.curiosity += needRates.curiosity * (0.5 + critter.genome.temperament) * delta
+  critter.nextSocialTime = Math.max(0, critter.nextSocialTime - delta)
+
+  const threat = findThreat(world, critter, planet)
+  const next = chooseBehaviour(critter, threat !== null)
+  if (next !== critter.behaviour) {
+    critter.behaviour = next
+    critter.behaviourTime = 0
+    critter.socialTarget = next === 'seekFriend' ? chooseFriend(world, critter, planet) : null
+  }
+  critter.behaviourTime += delta
+
+  let goal: THREE.Vector3 | null = null
+  let pace = 1
+  switch (critter.behaviour) {
+    case 'forage':
+      goal = forage(world, critter, planet, delta, _behaviourGoal)
+      pace = 0.7
+      break
+    case 'sleep':
+      // Head for the night side and curl up there
+      goal = _behaviourGoal.copy(sunDir).negate()
+      pace = daylight < -0.6 ? 0 : asleep ? 0.3 : 0.8
+      break
+    case 'seekFriend':
+      goal = seekFriend(world, critter, planet, delta, _behaviourGoal)
+      break
+    case 'explore':
+      pace = 0.8
+      maybeSetOff(world, critter, planet, delta)
+      break
+    case 'flee':
+      if (threat) goal = _behaviourGoal.subVectors(critter.position, threat)
+      pace = 1.6
+      break
+  }
+  for (const k of needKeys) needs[k] = THREE.MathUtils.clamp(needs[k], 0, 1)
+
+  const excitement = asleep ? 0 : critter.behaviour === 'flee' ? 1
+    : THREE.MathUtils.clamp(0.05 + 0.2 * critter.genome.temperament + 0.45 * needs.curiosity + 0.25 * needs.sociability + 0.25 * needs.energy - 0.2 * needs.hunger, 0, 1)
+  critter.excitement += (excitement - critter.excitement) * Math.min(1, 0.5 * delta)
+
+  if (critter.state === 'grounded') moveOnSurface(world, critter, planet, goal, pace, delta)
+}
+
+function chooseBehaviour(critter: Critter, threatened: boolean): Behaviour {
+  if (threatened) return 'flee'
+  // Once frightened, keep running a moment after the danger has passed
+  if (critter.behaviour === 'flee' && critter.behaviourTime < 1.5) return 'flee'
+  const { hunger, energy, sociability, curiosity } = critter.needs
+  scores.wander = 0.25
+  scores.forage = hunger
+  scores.sleep = (1 - energy) * 1.1
+  scores.seekFriend = critter.nextSocialTime > 0 ? 0 : sociability
+  scores.explore = curiosity * 0.9
+  scores.flee = 0
+  scores[critter.behaviour] += 0.15
+  let best: Behaviour = 'wander'
+  for (const b of behaviours) if (scores[b] > scores[best]) best = b
+  return best
+}
+
+// Where to run from: an avatar it doesn't like coming close, or someone about to land on it.
+// Timid critters keep a wider berth.
+function findThreat(world: World, critter: Critter, planet: Planet): THREE.Vector3 | null {
+  const range = fleeDistance * (1.4 - 0.8 * critter.genome.temperament)
+  for (const other of nearbyCritters(world, planet, critter.position, range + 0.5, true)) {
+    if (other === critter) continue
+    const d = other.position.distanceTo(critter.position)
+    if (d > range) continue
+    const unwelcome = other.owner !== null && other.state === 'grounded' && (critter.likes[other.name] ?? 0) < 0.3
+    const incoming = other.state !== 'grounded' && d < meetDistance && other.velocity.dot(_toBody.subVectors(critter.position, other.position)) > 0
+    if (unwelcome || incoming) return other.position
+  }
+  return null
+}
+
+// The critter it likes best, favouring ones on the same planet: its neighbours there, or failing
+// those someone it knows elsewhere, or failing that anyone at all
+function chooseFriend(world: World, critter: Critter, planet: Planet): Critter | null {
+  const index = spatialIndex(world)
+  let best: Critter | null = null
+  let bestScore = -Infinity
+  for (const other of index.residents[planet.index]) {
+    if (other === critter) continue
+    const score = (critter.likes[other.name] ?? 0) + 0.5 + world.random() * 0.3
+    if (score > bestScore) { best = other; bestScore = score }
+  }
+  for (const name in critter.likes) {
+    const other = index.byName.get(name)
+    if (!other || other === critter || planetOf(world, other) === planet) continue
+    const score = critter.likes[name] + world.random() * 0.3
+    if (score > bestScore) { best = other; bestScore = score }
+  }
+  if (best || world.critters.length < 2) return best
+  const other = world.critters[Math.floor(world.random() * world.critters.length)]
+  return other === critter ? null : other
+}
+
+// Walk up to the friend (or leap for their planet); meeting up makes both a little fonder
+function seekFriend(world: World, critter: Critter, planet: Planet, delta: number, target: THREE.Vector3): THREE.Vector3 | null {
+  const friend = critter.socialTarget
+  // Nobody around, or they're proving impossible to reach: give it a rest for a while
+  if (!friend || critter.behaviourTime > 20) {
+    critter.socialTarget = null
+    critter.nextSocialTime = 10
+    return null
+  }
+  const friendPlanet = planetOf(world, friend)
+  if (friendPlanet !== planet) {
+    if (friend.state === 'grounded') maybeSetOff(world, critter, planet, delta, onlyPlanet(friendPlanet))
+    return null
+  }
+  if (critter.position.distanceTo(friend.position) > meetDistance) return target.subVectors(friend.position, critter.position)
+
+  critter.likes[friend.name] = Math.min(1, (critter.likes[friend.name] ?? 0) + 0.15)
+  friend.likes[critter.name] = Math.min(1, (friend.likes[critter.name] ?? 0) + 0.1)
+  critter.needs.sociability = Math.max(0, critter.needs.sociability - 0.6)
+  friend.needs.sociability = Math.max(0, friend.needs.sociability - 0.3)
+  critter.nextSocialTime = 5 + world.random() * 5
+  critter.socialTarget = null
+  world.events.push({ type: 'met', critter, friend })
+  maybeBreed(world, critter, friend, planet)
+  return null
+}
+
+// ---------- Leaping between planets ----------
+// Explorers make for somewhere new now and then; `only` narrows the choice (e.g. a friend's planet)
+function maybeSetOff(world: World, critter: Critter, planet: Planet, delta: number, only?: Planet[]) {
+  if (critter.state !== 'grounded') return
+  const triesPerSecond = 0.72 + 1.8 * critter.excitement
+  if (world.random() > triesPerSecond * delta) return
+
+  const here = critter.position
+  const up = _setOffUp.subVectors(here, planet.position).normalize()
+  const candidates: { planet: Planet; score: number }[] = []
+  for (const p of only ?? world.planets) {
+    if (p === planet) continue
+    const dist = here.distanceTo(p.position)
+    const dirTo = _setOffTo.subVectors(p.position, here).normalize()
+    // Score based on closeness, novelty and alignment with the local tangent plane (encourage lateral jumps)
+    const tangentScore = 1 - Math.abs(dirTo.dot(up))
+    const novelty = critter.visited.includes(p.name) ? 1 : 2
+    // Hungry critters are drawn to planets heavy with fruit
+    const food = 1 + critter.needs.hunger * Math.min(ripeFruit(p), 10) / 5
+    const score = (tangentScore * novelty * food * 20) / dist
+    if (score > 0.01) candidates.push({ planet: p, score })
+  }
+  if (candidates.length === 0) return
+  candidates.sort((a, b) => b.score - a.score)
+
+  // Go for the most attractive planet that can actually be reached; after a while of finding
+  // nothing in reach, restless explorers try the favourite anyway
+  for (const { planet: target } of candidates.slice(0, 3)) {
+    if (leapSolvesLeft <= 0) return // aiming is the costly part; wait for a quieter tick
+    leapSolvesLeft--
+    const velocity = solveLeap(world, critter, target, _setOffVelocity)
+    if (velocity) return launch(world, critter, velocity, target)
+  }
+  if (critter.behaviour === 'explore' && critter.behaviourTime > 6) {
+    const favourite = candidates[0].planet
+    launch(world, critter, aimedLaunch(world, critter, favourite.position, _setOffVelocity), favourite)
+  }
+}
+
+function onlyPlanet(planet: Planet): Planet[] {
+  _onlyPlanets.length = 0
+  _onlyPlanets.push(planet)
+  return _onlyPlanets
+}
+
+function launch(world: World, critter: Critter, velocity: THREE.Vector3, target: Planet | null) {
+  // Leaping is hungry, tiring work
+  critter.needs.energy = Math.max(0, critter.needs.energy - 0.05)
+  critter.needs.hunger = Math.min(1, critter.needs.hunger + 0.03)
+  critter.velocity.copy(velocity)
+  critter.state = 'leaping'
+  critter.targetPlanet = target
+  world.events.push({ type: 'leapt', critter })
+}
+
+// Send a critter leaping for a planet, if it's on the ground and the planet is in reach
+export function leapTo(world: World, critter: Critter, target: Planet): boolean {
+  if (critter.state !== 'grounded' || critter.stunned > 0) return false
+  const velocity = solveLeap(world, critter, target)
+  if (!velocity) return false
+  launch(world, critter, velocity, target)
+  return true
+}
+
+// Leap for the nearest planet in reach, or failing that hop off along the critter's heading
+export function leapNow(world: World, critter: Critter): Planet | null {
+  if (critter.state !== 'grounded' || critter.stunned > 0) return null
+  const here = findNearestPlanet(world, critter.position).planet
+  const others = world.planets.filter(p => p !== here).sort((a, b) => a.position.distanceTo(critter.position) - b.position.distanceTo(critter.position))
+  const target = others.find(p => leapTo(world, critter, p)) || null
+  if (!target) launch(world, critter, avatarLeapVelocity(world, critter, here), null)
+  return target
+}
+
+// Send a critter off to a planet: it leaps for it whenever it's in reach, until it gets there
+export function sendCritterTo(critter: Critter, planet: Planet | null) {
+  critter.destination = planet === critter.homePlanet && critter.state === 'grounded' ? null : planet
+}
+
+function stepCritters(world: World, delta: number, before: BodyPositions) {
+  const from = _flightFrom
+  indexCritters(world)
+  // Newborns join in next step; anyone leaving stays in the list until the step is over
+  const count = world.critters.length
+  for (let i = 0; i < count; i++) {
+    const c = world.critters[i]
+    if (leaving.has(c)) continue
+    const planet = planetOf(world, c)
+
+    if (c.state === 'grounded' && c.stunned > 0) {
+      stickToPlanetSurface(world, c, planet, delta)
+      recover(c, planet, delta)
+    } else if (c.state === 'grounded' && c.owner) {
+      stickToPlanetSurface(world, c, planet, delta)
+      steerAvatar(world, c, planet, world.inputs.get(c.owner), delta)
+    } else if (c.state === 'grounded') {
+      stickToPlanetSurface(world, c, planet, delta)
+      updateBehaviour(world, c, planet, delta)
+      if (c.destination) maybeSetOff(world, c, planet, delta, onlyPlanet(c.destination))
+    } else {
+      // Airborne avatars can't leap again; don't let the press fire on landing
+      const input = c.owner ? world.inputs.get(c.owner) : undefined
+      if (input) input.leap = false
+      from.copy(c.position)
+      advanceFlight(world, c.position, c.velocity, delta)
+      spin(c, delta)
+      collideWithMoons(world, c, before, delta)
+      collideWithRings(world, c, from, before, delta)
+      if (touchesDown(world, c.position, planet, c.surfaceOffset)) touchDown(world, c, planet, bodyVelocity(planet.position, before.planets[planet.index], delta, _bodyVelocity), delta)
+    }
+  }
+  bumpCritters(world)
+}
+
+function touchDown(world: World, c: Critter, planet: Planet, planetVelocity: THREE.Vector3, delta: number) {
+  const normal = _landNormal.subVectors(c.position, planet.position).normalize()
+  const relative = _landRelative.subVectors(c.velocity, planetVelocity)
+  const impact = Math.max(0, -relative.dot(normal))
+  const slide = relative.addScaledVector(normal, impact) // what's left along the ground
+
+  if (impact > bounceSpeed) {
+    c.position.copy(planet.position).addScaledVector(normal, surfaceRadius(world, planet, normal) + c.surfaceOffset * 0.6 + 0.01)
+    c.velocity.copy(planetVelocity).addScaledVector(slide, 0.7).addScaledVector(normal, impact * world.params.restitution)
+    knock(c, normal, slide)
+    return
+  }
+
+  const hit = c.targetPlanet ? c.targetPlanet === planet : null
+  if (hit === true) c.leapHits++
+  if (hit === false) c.leapMisses++
+  c.state = 'grounded'
+  c.homePlanet = planet
+  c.targetPlanet = null
+  if (c.destination === planet) c.destination = null
+  // Somewhere new scratches the itch; somewhere familiar only a little
+  c.needs.curiosity = Math.max(0, c.needs.curiosity - (c.visited.includes(planet.name) ? 0.2 : 0.7))
+  if (!c.visited.includes(planet.name)) c.visited.push(planet.name)
+  // A hard landing leaves it dazed, sliding on along the ground for a moment
+  c.stunned = impact > stunSpeed ? Math.min(maxStun, 0.5 + (impact - stunSpeed) * 0.4) : 0
+  if (c.stunned > 0) c.velocity.copy(slide).multiplyScalar(0.6)
+  else c.velocity.set(0, 0, 0)
+  c.tumble.set(0, 0, 0)
+  stickToPlanetSurface(world, c, planet, delta)
+  world.events.push({ type: 'landed', critter: c, hit, impact })
+}
+
+// ---------- Impacts ----------
+// Critters coming down hard bounce (by params.restitution), tumble and land dazed instead of
+// settling at once. In flight they glance off moons and planetary rings, and knock into each other.
+
+// Where the planets and moons were at the start of the step
+interface BodyPositions { planets: THREE.Vector3[]; moons: THREE.Vector3[] }
+
+const bodiesBefore = new WeakMap<World, BodyPositions>()
+
+function rememberBodies(world: World): BodyPositions {
+  let before = bodiesBefore.get(world)
+  if (!before) {
+    before = { planets: [], moons: [] }
+    bodiesBefore.set(world, before)
+  }
+  copyPositions(before.planets, world.planets)
+  copyPositions(before.moons, world.moons)
+  return before
+}
+
+function copyPositions(into: THREE.Vector3[], bodies: { position: THREE.Vector3 }[]) {
+  while (into.length < bodies.length) into.push(new THREE.Vector3())
+  into.length = bodies.length
+  for (let i = 0; i < bodies.length; i++) into[i].copy(bodies[i].position)
+}
+
+function bodyVelocity(now: THREE.Vector3, before: THREE.Vector3, delta: number, target: THREE.Vector3): THREE.Vector3 {
+  return delta > 0 ? target.subVectors(now, before).divideScalar(delta) : target.set(0, 0, 0)
+}
+
+// Set spinning by a blow along `normal`, rolling with whatever speed it carried across it
+function knock(c: Critter, normal: THREE.Vector3, across: THREE.Vector3) {
+  c.tumble.crossVectors(normal, across).divideScalar(1.2 * c.sizeScale)
+}
+
+function spin(c: Critter, delta: number) {
+  const rate = c.tumble.length()
+  if (rate < 1e-3) return
+  c.quaternion.premultiply(_spinQuat.setFromAxisAngle(_spinAxis.copy(c.tumble).divideScalar(rate), rate * delta)).normalize()
+  c.tumble.multiplyScalar(Math.exp(-tumbleDrag * delta))
+}
+
+// Dazed on the ground: slide to a stop and come round; rolls while still going fast
+function recover(c: Critter, planet: Planet, delta: number) {
+  const up = _recoverUp.subVectors(c.position, planet.position).normalize()
+  c.velocity.addScaledVector(up, -c.velocity.dot(up)).multiplyScalar(Math.exp(-slideFriction * delta))
+  c.position.addScaledVector(c.velocity, delta)
+  c.tumble.crossVectors(up, c.velocity).divideScalar(1.2 * c.sizeScale)
+  spin(c, delta)
+  c.stunned = Math.max(0, c.stunned - delta)
+  if (c.stunned === 0) {
+    c.velocity.set(0, 0, 0)
+    c.tumble.set(0, 0, 0)
+  }
+}
+
+// Bounce the critter off a surface moving at `surfaceVelocity`, if it's heading into it
+function rebound(world: World, c: Critter, normal: THREE.Vector3, surfaceVelocity: THREE.Vector3) {
+  const relative = _reboundRelative.subVectors(c.velocity, surfaceVelocity)
+  const approach = relative.dot(normal)
+  if (approach >= 0) return
+  const across = _reboundAcross.copy(relative).addScaledVector(normal, -approach)
+  c.velocity.copy(surfaceVelocity).addScaledVector(across, 0.7).addScaledVector(normal, -approach * world.params.restitution)
+  knock(c, normal, across)
+}
+
+function collideWithMoons(world: World, c: Critter, before: BodyPositions, delta: number) {
+  for (let i = 0; i < world.moons.length; i++) {
+    const m = world.moons[i]
+    const reach = m.radius + c.surfaceOffset * 0.6
+    const offset = _moonOffset.subVectors(c.position, m.position)
+    if (offset.lengthSq() >= reach * reach) continue
+    const normal = offset.normalize()
+    c.position.copy(m.position).addScaledVector(normal, reach)
+    rebound(world, c, normal, bodyVelocity(m.position, before.moons[i], delta, _bodyVelocity))
+  }
+}
+
+// Rings are flat annuli around the planet's equator-ish plane (tilted by the ring's tiltDeg, turning
+// with the planet); a critter that crosses one within its radii this step bounces back off it
+function collideWithRings(world: World, c: Critter, from: THREE.Vector3, before: BodyPositions, delta: number) {
+  for (const p of world.planets) {
+    if (!p.ring) continue
+    const tilt = THREE.MathUtils.degToRad(p.ring.tiltDeg)
+    const normal = fromPlanetFrame(p, _ringNormal.set(0, -Math.sin(tilt), Math.cos(tilt)))
+    const was = _ringWas.subVectors(from, before.planets[p.index])
+    const now = _ringNow.subVectors(c.position, p.position)
+    const d0 = was.dot(normal)
+    const d1 = now.dot(normal)
+    if (d0 * d1 > 0 || d0 === d1) continue
+    const crossing = was.lerp(now, d0 / (d0 - d1))
+    const r = crossing.addScaledVector(normal, -crossing.dot(normal)).length()
+    if (r < p.radius * p.ring.inner || r > p.radius * p.ring.outer) continue
+    // Back to the side it came from, just clear of the ring
+    const side = Math.sign(d0) || 1
+    c.position.addScaledVector(normal, side * 0.05 - d1)
+    rebound(world, c, normal.multiplyScalar(side), bodyVelocity(p.position, before.planets[p.index], delta, _bodyVelocity))
+  }
+}
+
+// Critters in flight knock into each other, trading momentum (mass goes with size cubed). Each pair
+// comes up twice; the second time they're already apart.
+function bumpCritters(world: World) {
+  for (const a of world.critters) {
+    if (a.state === 'grounded') continue
+    for (const b of nearbyCritters(world, planetOf(world, a), a.position, 1.2 * (a.sizeScale + geneRanges.size[1]) + 0.5, true)) {
+      if (b !== a && b.state !== 'grounded') collideCritters(world, a, b)
+    }
+  }
+}
+
+function collideCritters(world: World, a: Critter, b: Critter) {
+  const reach = 1.2 * (a.sizeScale + b.sizeScale)
+  const normal = _bumpNormal.subVectors(b.position, a.position)
+  const dist = normal.length()
+  if (dist >= reach || dist < 1e-6) return
+  normal.divideScalar(dist)
+  const ma = a.sizeScale ** 3
+  const mb = b.sizeScale ** 3
+  // Push apart, the lighter one further
+  const overlap = reach - dist
+  a.position.addScaledVector(normal, -overlap * mb / (ma + mb))
+  b.position.addScaledVector(normal, overlap * ma / (ma + mb))
+  const relative = _bumpRelative.subVectors(b.velocity, a.velocity)
+  const approach = relative.dot(normal)
+  if (approach >= 0) return
+  const impulse = -(1 + world.params.restitution) * approach / (1 / ma + 1 / mb)
+  a.velocity.addScaledVector(normal, -impulse / ma)
+  b.velocity.addScaledVector(normal, impulse / mb)
+  const across = relative.addScaledVector(normal, -approach)
+  knock(b, normal, across)
+  knock(a, normal.negate(), across.negate())
+}
+
+// ---------- Terrain ----------
+// One height function, sampled alike by the renderer (which raises and colors the ground from it)
+// and the physics (which stands critters on it). Each planet reads its own patch of a shared noise
+// field: continents, hills, then rough ground, with ridged mountains on the high ground. A planet's
+// radius is its sea level; the oceans hide whatever lies below, and critters paddle across the top.
+export type Biome = 'ocean' | 'ice' | 'desert' | 'grassland' | 'forest' | 'mountain'
+
+export const seaLevel = 0.42 // altitude of the oceans' surface
+const relief = 0.12 // how far the highest peak rises above sea level, as a fraction of the radius
+const octaves = 5
+const mountains = 0.68 // altitude where the ground turns to bare rock
+
+interface Terrain {
+  seed: string
+  height: NoiseFunction3D
+  moisture: NoiseFunction3D
+}
+
+// Each world keeps the noise for its own seed, so a host's world and a preview or test world can interleave
+const terrains = new WeakMap<World, Terrain>()
+
+function terrainNoise(world: World): Terrain {
+  let terrain = terrains.get(world)
+  if (!terrain || terrain.seed !== world.seed) {
+    terrain = {
+      seed: world.seed,
+      height: createNoise3D(mulberry32(hashStringToInt32(`${world.seed}:terrain`))),
+      moisture: createNoise3D(mulberry32(hashStringToInt32(`${world.seed}:moisture`))),
+    }
+    terrains.set(world, terrain)
+  }
+  return terrain
+}
+
+// 0 for the deepest basins, 1 for the highest peaks; `direction` is a unit vector in the planet's frame
+export function surfaceAltitude(world: World, planet: Planet, direction: THREE.Vector3): number {
+  const { height } = terrainNoise(world)
+  const shift = planet.index * 23.7 // far enough along the field that no two planets look alike
+  let sum = 0
+  let amplitude = 1
+  let frequency = 1.2
+  for (let i = 0; i < octaves; i++) {
+    sum += amplitude * height(direction.x * frequency + shift, direction.y * frequency, direction.z * frequency)
+    amplitude *= 0.5
+    frequency *= 2.1
+  }
+  let h = 0.5 + 0.45 * sum / 1.94 // octave amplitudes add up to 1.94
+  // Ridges on the high ground
+  if (h > 0.55) {
+    const ridge = 1 - Math.abs(height(direction.x * 3.1 - shift, direction.y * 3.1, direction.z * 3.1))
+    h += (h - 0.55) * ridge * ridge * 1.4
+  }
+  return THREE.MathUtils.clamp(h, 0, 1)
+}
+
+// How far from the planet's centre ground at this altitude lies (below the radius for the seabed)
+export function groundRadius(planet: Planet, altitude: number): number {
+  return planet.radius * (1 + relief * (altitude - seaLevel) / (1 - seaLevel))
+}
+
+// The highest ground on a planet can reach
+function peakRadius(planet: Planet): number {
+  return planet.radius * (1 + relief)
+}
+
+const _ground = new THREE.Vector3()
+
+// How far from the planet's centre the ground (or the sea) lies in a world-space direction
+export function surfaceRadius(world: World, planet: Planet, direction: THREE.Vector3): number {
+  toPlanetFrame(planet, _ground.copy(direction).normalize())
+  return Math.max(planet.radius, groundRadius(planet, surfaceAltitude(world, planet, _ground)))
+}
+
+// Biomes by altitude and latitude: oceans below sea level, bare rock up high, ice toward the poles
+// (and on the coldest peaks), then deserts, grassland or forest by how wet the ground is
+export function biomeAt(world: World, planet: Planet, direction: THREE.Vector3, altitude = surfaceAltitude(world, planet, direction)): Biome {
+  if (altitude < seaLevel) return 'ocean'
+  const cold = Math.abs(direction.y) + Math.max(0, altitude - mountains) * 1.5
+  if (cold > 0.8) return 'ice'
+  if (altitude > mountains) return 'mountain'
+  const wet = moistureAt(world, planet, direction) + (altitude - seaLevel) * 0.3 - Math.abs(direction.y) * 0.1
+  if (wet < 0.38) return 'desert'
+  return wet > 0.52 ? 'forest' : 'grassland'
+}
+
+// 0 (parched) .. 1 (soaked)
+function moistureAt(world: World, planet: Planet, direction: THREE.Vector3): number {
+  const { moisture } = terrainNoise(world)
+  const shift = planet.index * 23.7
+  return (moisture(direction.x * 1.6 + shift, direction.y * 1.6, direction.z * 1.6) + 1) * 0.5
+}
+
+// ---------- Ecology ----------
+// Trees only take root in forest and grassland (forests are the richest), and ripen fruit faster the
+// more sunlight reaches their planet.
+const biomeFertility: Record<Biome, number> = { ocean: 0, ice: 0, desert: 0, mountain: 0, grassland: 0.55, forest: 1 }
+const plantingTries = 24
+
+function fertilityAt(world: World, planet: Planet, direction: THREE.Vector3): number {
+  const fertility = biomeFertility[biomeAt(world, planet, direction)]
+  return fertility * THREE.MathUtils.lerp(0.7, 1, moistureAt(world, planet, direction))
+}
+
+// Same seed, same orchards; drawn from their own stream so planting doesn't shift the simulation's
+function plantTrees(world: World, planet: Planet): Tree[] {
+  const rng = mulberry32(hashStringToInt32(`${world.seed}:trees:${planet.name}`))
+  const r = planet.radius
+  const count = Math.min(maxTrees, planet.treeDensity !== undefined
+    ? Math.round(planet.treeDensity * 4 * Math.PI * r * r)
+    : Math.floor(THREE.MathUtils.mapLinear(r, 3, 6, 24, 64)))
+  const trees: Tree[] = []
+  for (let i = 0; i < count; i++) {
+    // Look about for good soil; a planet of ice, rock and sea grows nothing
+    const direction = new THREE.Vector3()
+    for (let attempt = 0; attempt < plantingTries; attempt++) {
+      const fertility = fertilityAt(world, planet, randomDirection(rng, direction))
+      if (rng() < fertility) {
+        trees.push({ direction, fertility, fruit: rng() * maxFruit * fertility })
+        break
+      }
+    }
+  }
+  return trees
+}
+
+// Inverse-square falloff from the star, within reason
+function sunlight(planet: Planet): number {
+  const d2 = Math.max(planet.position.lengthSq(), 1)
+  return THREE.MathUtils.clamp(sunlightDistance ** 2 / d2, 0.1, 3)
+}
+
+function growFruit(world: World, dt: number) {
+  const rate = world.params.fruitGrowth / 60
+  for (const p of world.planets) {
+    const light = sunlight(p)
+    for (const t of p.trees) t.fruit = Math.min(maxFruit, t.fruit + rate * t.fertility * light * dt)
+  }
+}
+
+export function ripeFruit(planet: Planet): number {
+  let n = 0
+  for (const t of planet.trees) n += Math.floor(t.fruit)
+  return n
+}
+
+// From the planet's frame to world directions and back (the renderer turns its mesh the same way)
+function fromPlanetFrame(planet: Planet, v: THREE.Vector3): THREE.Vector3 {
+  return v.applyAxisAngle(yAxis, planet.spin).applyAxisAngle(xAxis, planet.axialTilt)
+}
+
+function toPlanetFrame(planet: Planet, v: THREE.Vector3): THREE.Vector3 {
+  return v.applyAxisAngle(xAxis, -planet.axialTilt).applyAxisAngle(yAxis, -planet.spin)
+}
+
+// Head for the nearest tree with ripe fruit and eat when there. With none left here, a hungry
+// critter looks for a planet that has some, and meanwhile basks on the sunny side.
+function forage(world: World, critter: Critter, planet: Planet, delta: number, target: THREE.Vector3): THREE.Vector3 {
+  const up = toPlanetFrame(planet, _forageUp.subVectors(critter.position, planet.position).normalize())
+  let nearest: Tree | null = null
+  let bestDot = -Infinity
+  for (const t of planet.trees) {
+    if (t.fruit < 1) continue
+    const dot = t.direction.dot(up)
+    if (dot > bestDot) { nearest = t; bestDot = dot }
+  }
+
+  if (!nearest) {
+    if (critter.needs.hunger > 0.5) {
+      const fruitful = _onlyPlanets
+      fruitful.length = 0
+      for (const p of world.planets) if (p !== planet && ripeFruit(p) >= 3) fruitful.push(p)
+      if (fruitful.length) maybeSetOff(world, critter, planet, delta, fruitful)
+    }
+    return target.subVectors(sunPosition, planet.position)
+  }
+  if (Math.acos(Math.min(1, bestDot)) * planet.radius < eatDistance && critter.behaviourTime >= mealTime) {
+    critter.behaviourTime = 0
+    nearest.fruit -= 1
+    critter.needs.hunger = Math.max(0, critter.needs.hunger - needRates.meal)
+    world.events.push({ type: 'ate', critter })
+  }
+  return fromPlanetFrame(planet, target.copy(nearest.direction)).multiplyScalar(planet.radius).add(planet.position).sub(critter.position)
+}
+
+// ---------- Genetics ----------
+const geneRanges = {
+  legPairs: [0, 4],
+  legLength: [0.5, 1.8],
+  size: [0.6, 1.7],
+  ears: [0, 1.6],
+  temperament: [0, 1],
+} as const
+
+export function bodyTypeOf(genome: Genome): BodyType {
+  return genome.legPairs === 0 ? 'worm' : genome.legPairs === 1 ? 'biped' : genome.legPairs === 2 ? 'quadruped' : 'insect'
+}
+
+// A founder: the same spread of bodies and sizes critters have always come in
+export function randomGenome(rng: () => number, hue: number): Genome {
+  return {
+    legPairs: Math.floor(rng() * 4),
+    legLength: THREE.MathUtils.lerp(0.8, 1.2, rng()),
+    size: THREE.MathUtils.lerp(0.8, 1.4, rng()),
+    hue,
+    ears: THREE.MathUtils.lerp(0.5, 1.3, rng()),
+    temperament: rng(),
+  }
+}
+
+// Each gene comes from somewhere between the parents' (or one or the other, for leg count),
+// nudged by a small mutation
+export function crossGenomes(rng: () => number, a: Genome, b: Genome): Genome {
+  const blend = (gene: keyof typeof geneRanges) => {
+    const [min, max] = geneRanges[gene]
+    const value = THREE.MathUtils.lerp(a[gene], b[gene], rng()) + (rng() - 0.5) * 2 * mutation * (max - min)
+    return THREE.MathUtils.clamp(value, min, max)
+  }
+  let legPairs = rng() < 0.5 ? a.legPairs : b.legPairs
+  if (rng() < mutation) legPairs += rng() < 0.5 ? -1 : 1
+  // Hues blend the short way round the color wheel
+  let dh = b.hue - a.hue
+  dh -= Math.round(dh)
+  const hue = a.hue + dh * rng() + (rng() - 0.5) * 2 * mutation * 0.5
+  return {
+    legPairs: THREE.MathUtils.clamp(legPairs, geneRanges.legPairs[0], geneRanges.legPairs[1]),
+    legLength: blend('legLength'),
+    size: blend('size'),
+    hue: hue - Math.floor(hue),
+    ears: blend('ears'),
+    temperament: blend('temperament'),
+  }
+}
+
+// Friends who meet may have young if they're grown, well enough and there's room; the fonder
+// they are of each other, the likelier
+function maybeBreed(world: World, a: Critter, b: Critter, planet: Planet) {
+  if (a.age < maturity || b.age < maturity) return
+  if (a.needs.energy < 0.2 || b.needs.energy < 0.2) return
+  if (a.needs.hunger > 0.8 || b.needs.hunger > 0.8) return
+  if (world.critters.length >= maxCritters) return
+  const homes = spatialIndex(world).homes
+  if (homes[planet.index] >= Math.min(world.params.populationCap, maxCritters)) return
+  const fondness = Math.min(a.likes[b.name] ?? 0, b.likes[a.name] ?? 0)
+  if (world.random() > 0.3 + fondness) return
+
+  const child = spawnCritter(world, offspringName(world, a, b), planet, crossGenomes(world.random, a.genome, b.genome))
+  homes[planet.index]++
+  child.position.copy(a.position).lerp(b.position, 0.5)
+  child.quaternion.copy(a.quaternion)
+  child.generation = Math.max(a.generation, b.generation) + 1
+  child.parents = [a.name, b.name]
+  child.likes[a.name] = child.likes[b.name] = 0.5
+  for (const parent of [a, b]) {
+    parent.likes[child.name] = 0.5
+    parent.needs.energy = Math.max(0, parent.needs.energy - 0.3)
+    parent.needs.hunger = Math.min(1, parent.needs.hunger + 0.2)
+  }
+  world.events.push({ type: 'born', critter: child })
+}
+
+// The first syllable of one parent's name and the last of the other's (sometimes with one from
+// the middle), numbered if it's taken
+function offspringName(world: World, a: Critter, b: Critter): string {
+  const [first, second] = world.random() < 0.5 ? [a, b] : [b, a]
+  const head = syllablesOf(first.name)
+  const tail = syllablesOf(second.name)
+  const last = tail[tail.length - 1].toLowerCase()
+  const middle = [...head.slice(1), ...tail.slice(0, -1)].filter(m => m.toLowerCase() !== last && m !== head[0])
+  const extra = middle.length && world.random() < 0.3 ? middle[Math.floor(world.random() * middle.length)].toLowerCase() : ''
+  return uniqueCritterName(world, (head[0] + extra + last).slice(0, 24))
+}
+
+// `base`, or `base 2`, `base 3`... if that's taken; names identify critters, so no two may share one
+function uniqueCritterName(world: World, base: string): string {
+  let name = base
+  for (let n = 2; world.critters.some(c => c.name === name); n++) name = `${base.slice(0, 28)} ${n}` // fits 32 characters
+  return name
+}
+
+// 'Scrappybara' -> Scra ppy ba ra; a trailing consonant sticks to the last syllable
+function syllablesOf(name: string): string[] {
+  const stem = name.split(' ')[0]
+  const parts = stem.match(/[^aeiouy]*[aeiouy]+/gi) || [stem]
+  const rest = stem.slice(parts.join('').length)
+  if (rest) parts[parts.length - 1] += rest
+  return parts
+}
+
+// Critters grow old and, once past their lifespan, pass away quietly on the ground
+function ageCritters(world: World, dt: number) {
+  for (let i = 0; i < world.critters.length; i++) {
+    const c = world.critters[i]
+    c.age += dt
+    if (c.age > c.lifespan && !c.owner && c.state === 'grounded' && !leaving.has(c)) {
+      removeCritter(world, c)
+      world.events.push({ type: 'died', critter: c })
+    }
+  }
+}
+
+// ---------- Flight and trajectory prediction ----------
+// Leaping / space flight under combined gravity, with space drag so they arc and settle
+function advanceFlight(world: World, position: THREE.Vector3, velocity: THREE.Vector3, delta: number) {
+  velocity.addScaledVector(getCombinedGravityAtPoint(world, position, _gravity), delta)
+  velocity.multiplyScalar(Math.exp(-world.params.spaceDrag * delta))
+  position.addScaledVector(velocity, delta)
+}
+
+const _touchAt = new THREE.Vector3()
+
+// Flights start above the surface, so anything below it has come down (from whichever side)
+function touchesDown(world: World, position: THREE.Vector3, planet: Planet, surfaceOffset: number): boolean {
+  const distance = position.distanceTo(planet.position)
+  if (distance > peakRadius(planet) + surfaceOffset * 0.6) return false // clear of the highest ground
+  return distance <= surfaceRadius(world, planet, _touchAt.subVectors(position, planet.position)) + surfaceOffset * 0.6
+}
+
+export interface Trajectory {
+  points: THREE.Vector3[] // the predicted path, from the launch point on
+  landed: Planet | null // where it comes down within the horizon, if anywhere
+  time: number // seconds of flight predicted
+  closest: { distance: number; miss: THREE.Vector3 } | null // nearest pass at the watched planet's surface
+}
+
+// Predictions run a few times a tick, so they reuse one path and one copy of the orbits
+const _path: THREE.Vector3[] = []
+const _pathPoints: THREE.Vector3[] = [] // every vector _path has used, to hand out again
+const _flightAt = new THREE.Vector3()
+const _flightVelocity = new THREE.Vector3()
+const _closest = { distance: 0, miss: new THREE.Vector3() }
+
+// Fly a leap forward under the same gravity and drag as the sim, with the planets moving on their
+// orbits (a copy of them; the world is left untouched). `watch` records the nearest pass at a planet.
+// The points and `closest` are shared: use them before the next prediction.
+export function predictTrajectory(world: World, from: THREE.Vector3, velocity: THREE.Vector3, surfaceOffset: number, watch: Planet | null = null, horizon = predictionHorizon): Trajectory {
+  const future = orbitsCopy(world)
+  const position = _flightAt.copy(from)
+  const v = _flightVelocity.copy(velocity)
+  _path.length = 0
+  addPathPoint(position)
+  const watched = watch ? future.planets[watch.index] : null
+  let closest: Trajectory['closest'] = null
+  let time = 0
+  while (time < horizon) {
+    future.time += predictionStep
+    updateOrbits(future, predictionStep)
+    const nearest = nearestPlanetTo(future, position)
+    advanceFlight(future, position, v, predictionStep)
+    time += predictionStep
+    addPathPoint(position)
+    if (watched) {
+      const distance = position.distanceTo(watched.position) - watched.radius
+      if (!closest || distance < closest.distance) {
+        closest = _closest
+        closest.distance = distance
+        closest.miss.subVectors(watched.position, position).setLength(Math.max(distance, 0))
+      }
+    }
+    if (touchesDown(world, position, nearest, surfaceOffset)) return { points: _path, landed: world.planets[nearest.index], time, closest }
+  }
+  return { points: _path, landed: null, time, closest }
+}
+
+function addPathPoint(p: THREE.Vector3) {
+  const i = _path.length
+  _pathPoints[i] ??= new THREE.Vector3()
+  _path.push(_pathPoints[i].copy(p))
+}
+
+// Just the moving parts of the world, for looking ahead. Each world keeps one copy, rebuilt when its
+// system changes and otherwise brought up to date in place.
+const futures = new WeakMap<World, World>()
+
+function orbitsCopy(world: World): World {
+  let future = futures.get(world)
+  if (!future || future.planets.length !== world.planets.length || future.moons.length !== world.moons.length) {
+    const planets = world.planets.map(p => ({ ...p, position: p.position.clone(), velocity: p.velocity.clone() }))
+    const moons = world.moons.map(m => ({ ...m, planet: planets[m.planet.index], position: m.position.clone(), velocity: m.velocity.clone() }))
+    future = { ...world, planets, moons, critters: [], inputs: new Map(), events: [] }
+    futures.set(world, future)
+  }
+  const { planets, moons, critters, inputs, events } = future
+  Object.assign(future, world, { planets, moons, critters, inputs, events })
+  world.planets.forEach((p, i) => {
+    const { position, velocity } = planets[i]
+    Object.assign(planets[i], p, { position: position.copy(p.position), velocity: velocity.copy(p.velocity) })
+  })
+  world.moons.forEach((m, i) => {
+    const { position, velocity } = moons[i]
+    Object.assign(moons[i], m, { planet: planets[m.planet.index], position: position.copy(m.position), velocity: velocity.copy(m.velocity) })
+  })
+  return future
+}
+
+// Find a launch velocity (at the world's leap impulse) that lands the critter on `target`: shoot a
+// trial arc, shift the aim point by how far it passed from the target, and try again. Null if the
+// target is out of reach. The answer goes in `velocity`.
+export function solveLeap(world: World, critter: Critter, target: Planet, velocity = new THREE.Vector3()): THREE.Vector3 | null {
+  const aim = _leapAim.copy(target.position)
+  for (let i = 0; i < leapAimAttempts; i++) {
+    aimedLaunch(world, critter, aim, velocity)
+    const path = predictTrajectory(world, critter.position, velocity, critter.surfaceOffset, target)
+    if (path.landed === target) return velocity
+    if (!path.closest) return null
+    aim.add(path.closest.miss)
+  }
+  return null
+}
+
+// Launch velocity toward a point, kept from diving into the ground it leaves from
+function aimedLaunch(world: World, critter: Critter, aim: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+  const planet = nearestPlanetTo(world, critter.position)
+  const up = _launchUp.subVectors(critter.position, planet.position).normalize()
+  target.subVectors(aim, critter.position).normalize()
+  const lift = target.dot(up)
+  if (lift < minLaunchUp) target.addScaledVector(up, minLaunchUp - lift).normalize()
+  return target.multiplyScalar(world.params.leapImpulse)
+}
+
+// ---------- Player Avatars ----------
+// Each player steers one critter, either adopted from the wild or spawned under their name
+export function ensureAvatar(world: World, player: string) {
+  if (world.critters.some(c => c.owner === player)) return
+  const existing = world.critters.find(c => c.name === player && !c.owner)
+  if (existing) {
+    existing.owner = player
+    return
+  }
+  // No room for another critter: take over a wild one instead
+  if (world.critters.length >= maxCritters) {
+    const wild = world.critters.find(c => !c.owner)
+    if (wild) wild.owner = player
+    return
+  }
+  const home = world.planets[Math.floor(world.random() * world.planets.length)]
+  // Under the player's name, unless another player's critter already goes by it
+  const c = spawnCritter(world, uniqueCritterName(world, player), home, randomGenome(world.random, world.random()))
+  c.owner = player
+  c.spawnedAvatar = true
+}
+
+export function releaseAvatar(world: World, player: string) {
+  world.inputs.delete(player)
+  const c = world.critters.find(c => c.owner === player)
+  if (!c) return
+  if (c.spawnedAvatar) removeCritter(world, c)
+  else c.owner = null
+}
+
+function adoptNearestCritter(world: World, player: string, near: THREE.Vector3) {
+  let best: Critter | null = null
+  let bestDist = avatarAdoptRange
+  for (const c of world.critters) {
+    if (c.owner) continue
+    const d = c.position.distanceTo(near)
+    if (d < bestDist) { best = c; bestDist = d }
+  }
+  if (!best) return
+  const input = world.inputs.get(player)
+  releaseAvatar(world, player)
+  if (input) world.inputs.set(player, input)
+  best.owner = player
+}
+
+// Walk the avatar along its heading; stickToPlanetSurface keeps it glued and upright
+function steerAvatar(world: World, critter: Critter, planet: Planet, input: PlayerInput | undefined, delta: number) {
+  if (!input) return
+  if (input.adopt) {
+    const near = input.adopt
+    input.adopt = null
+    adoptNearestCritter(world, critter.owner!, near)
+    return
+  }
+
+  const up = _steerUp.subVectors(critter.position, planet.position).normalize()
+  if (input.turn !== 0) {
+    critter.quaternion.premultiply(_steerQuat.setFromAxisAngle(up, -input.turn * avatarTurnSpeed * delta))
+  }
+  const forward = _steerForward.set(0, 0, 1).applyQuaternion(critter.quaternion)
+  forward.addScaledVector(up, -forward.dot(up)).normalize()
+
+  if (input.forward !== 0) {
+    const speed = 2.0 + 2.2 * critter.excitement
+    critter.position.addScaledVector(forward, input.forward * speed * delta)
+    critter.gaitPhase += delta * (1.5 + 2.0 * critter.excitement) * Math.abs(input.forward)
+  }
+
+  if (input.leap) {
+    input.leap = false
+    launch(world, critter, avatarLeapVelocity(world, critter, planet), null)
+  }
+}
+
+// Same impulse as the wild critters' leaps, thrown up and forward
+export function avatarLeapVelocity(world: World, critter: Critter, planet: Planet, target = new THREE.Vector3()): THREE.Vector3 {
+  const up = new THREE.Vector3().subVectors(critter.position, planet.position).normalize()
+  const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(critter.quaternion)
+  forward.addScaledVector(up, -forward.dot(up)).normalize()
+  return target.copy(up).add(forward).normalize().multiplyScalar(world.params.leapImpulse)
+}
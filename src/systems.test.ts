@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { generateSystem } from './generator'
+import { parseStarSystem, presetSystems, systemWorldOptions, type StarSystem } from './systems'
+
+const eden = presetSystems[0]
+const copy = (system: StarSystem): StarSystem => JSON.parse(JSON.stringify(system))
+
+describe('parseStarSystem', () => {
+  it('accepts the presets', () => {
+    for (const system of presetSystems) expect(parseStarSystem(copy(system))).toEqual(system)
+  })
+
+  it('refuses repeated planet names, crowded planets and values out of range', () => {
+    const twins = copy(eden)
+    twins.planets.push({ ...twins.planets[0] })
+    expect(parseStarSystem(twins)).toBeNull()
+
+    const crowded = copy(eden)
+    crowded.planets[0].critters = 65
+    expect(parseStarSystem(crowded)).toBeNull()
+
+    expect(parseStarSystem({ ...copy(eden), params: { spaceDrag: -1 } })).toBeNull()
+    expect(parseStarSystem({ ...copy(eden), planets: [] })).toBeNull()
+    expect(parseStarSystem({ ...copy(eden), star: { temperature: 100, radius: 6 } })).toBeNull()
+  })
+
+  it('leaves unknown tuning keys out of the world options', () => {
+    const system = parseStarSystem({ ...copy(eden), params: { spaceDrag: 2, someday: 5 } })
+    expect(system && systemWorldOptions(system).params).toEqual({ spaceDrag: 2 })
+  })
+})
+
+describe('generateSystem', () => {
+  it('makes the same system from the same seed, and another from another', () => {
+    expect(generateSystem('garden')).toEqual(generateSystem('garden'))
+    expect(generateSystem('meadow')).not.toEqual(generateSystem('garden'))
+  })
+
+  it('makes systems that pass the file checks', () => {
+    for (let i = 0; i < 50; i++) {
+      const system = generateSystem(`seed ${i}`)
+      expect(parseStarSystem(copy(system)), system.name).not.toBeNull()
+    }
+  })
+})
@@ -0,0 +1,146 @@
+import { isSimParams, starTemperature } from './save'
+import { arrayOf, fraction, isNum, isStr, nonNegative, optional, positive, shape, type Check } from './schema'
+import { defaultParams, maxCritters, maxMoons, maxNameLength, maxPlanets, type MoonSpec, type PlanetSpec, type SimParams, type StarSpec, type WorldOptions } from './sim'
+import eden from './systems/eden.json'
+import wander from './systems/wander.json'
+import carnival from './systems/carnival.json'
+
+// ---------- Star-system files ----------
+// A whole system as JSON: the star, the planets with their rings and moons, and the starting
+// tuning and population. Angles are in degrees and colors are '#rrggbb' strings, so files are
+// easy to write by hand. The start screen's presets are entries in this format (src/systems/).
+export interface SystemMoon {
+  radius: number
+  orbitRadius: number
+  speed: number
+  tilt: number
+}
+
+export interface SystemRing {
+  inner: number // radii relative to the planet's
+  outer: number
+  tilt: number
+  opacity?: number
+}
+
+export interface SystemPlanet {
+  name: string
+  radius: number
+  color: string
+  orbitalRadius: number
+  orbitalSpeed: number
+  axialTilt: number
+  rotationSpeed: number
+  gravityStrength: number
+  eccentricity?: number // Kepler/N-body orbits only (default: the orbitEccentricity param)
+  inclination?: number
+  periapsis?: number
+  ring?: SystemRing
+  moons?: SystemMoon[]
+  treeDensity?: number // trees per unit of surface area
+  atmosphereColor?: string
+  atmosphereDensity?: number // 1 for the usual, 0 for none
+  critters?: number // starting population
+}
+
+export interface StarSystem {
+  name: string // id, also used as the preset name
+  title: string
+  star: StarSpec
+  params?: Record<string, number>
+  planets: SystemPlanet[]
+}
+
+const maxCrittersPerPlanet = 64
+
+const hexColor: Check = v => typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v)
+const count = (max: number): Check => v => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= max
+
+const systemMoon = shape({ radius: positive, orbitRadius: positive, speed: isNum, tilt: isNum })
+const systemRing = shape({ inner: positive, outer: positive, tilt: isNum, opacity: optional(nonNegative) })
+const systemPlanet = shape({
+  name: isStr(maxNameLength),
+  radius: positive,
+  color: hexColor,
+  orbitalRadius: positive,
+  orbitalSpeed: isNum,
+  axialTilt: isNum,
+  rotationSpeed: isNum,
+  gravityStrength: nonNegative,
+  eccentricity: optional(fraction),
+  inclination: optional(isNum),
+  periapsis: optional(isNum),
+  ring: optional(systemRing),
+  moons: optional(arrayOf(systemMoon, maxMoons)),
+  treeDensity: optional(nonNegative),
+  atmosphereColor: optional(hexColor),
+  atmosphereDensity: optional(nonNegative),
+  critters: optional(count(maxCrittersPerPlanet)),
+})
+const isStarSystem = shape({
+  name: isStr(maxNameLength),
+  title: isStr(64),
+  star: shape({ temperature: starTemperature, radius: positive }),
+  params: optional(isSimParams),
+  planets: v => arrayOf(systemPlanet, maxPlanets)(v) && (v as unknown[]).length > 0,
+})
+
+// Returns the system if the file is valid, otherwise null
+export function parseStarSystem(data: unknown): StarSystem | null {
+  if (!isStarSystem(data)) return null
+  const system = data as StarSystem
+  // Planets are looked up by name (moons, saves, snapshots), so names must be unique
+  const names = new Set(system.planets.map(p => p.name))
+  if (names.size !== system.planets.length) return null
+  // A world that starts with more critters than a save or snapshot can carry couldn't be shared
+  const population = system.planets.reduce((sum, p) => sum + (p.critters ?? 2), 0) // 2 where a planet doesn't say
+  return population <= maxCritters ? system : null
+}
+
+const toRad = (deg: number) => deg * Math.PI / 180
+const parseColor = (hex: string) => parseInt(hex.slice(1), 16)
+
+// Everything createWorld/resetWorld need to build the system
+export function systemWorldOptions(system: StarSystem): Omit<WorldOptions, 'seed'> {
+  const planets: PlanetSpec[] = []
+  const moons: MoonSpec[] = []
+  for (const p of system.planets) {
+    const spec: PlanetSpec = {
+      name: p.name,
+      radius: p.radius,
+      color: parseColor(p.color),
+      orbitalRadius: p.orbitalRadius,
+      orbitalSpeed: p.orbitalSpeed,
+      axialTilt: toRad(p.axialTilt),
+      rotationSpeed: p.rotationSpeed,
+      gravityStrength: p.gravityStrength,
+    }
+    if (p.eccentricity !== undefined) spec.eccentricity = p.eccentricity
+    if (p.inclination !== undefined) spec.inclination = toRad(p.inclination)
+    if (p.periapsis !== undefined) spec.periapsis = toRad(p.periapsis)
+    if (p.ring) spec.ring = { inner: p.ring.inner, outer: p.ring.outer, tiltDeg: p.ring.tilt, opacity: p.ring.opacity }
+    if (p.treeDensity !== undefined) spec.treeDensity = p.treeDensity
+    if (p.atmosphereColor) spec.atmosphereColor = parseColor(p.atmosphereColor)
+    if (p.atmosphereDensity !== undefined) spec.atmosphereDensity = p.atmosphereDensity
+    if (p.critters !== undefined) spec.critters = p.critters
+    planets.push(spec)
+    for (const m of p.moons || []) {
+      moons.push({ planet: p.name, radius: m.radius, orbitRadius: m.orbitRadius, speed: m.speed, tiltDeg: m.tilt })
+    }
+  }
+  // Unknown tuning keys are ignored rather than carried around
+  const params: Partial<SimParams> = {}
+  for (const k of Object.keys(defaultParams) as (keyof SimParams)[]) {
+    if (system.params && k in system.params) params[k] = system.params[k]
+  }
+  return { params, star: { ...system.star }, planets, moons }
+}
+
+function builtIn(data: unknown): StarSystem {
+  const system = parseStarSystem(data)
+  if (!system) throw new Error('Invalid built-in star system')
+  return system
+}
+
+// The start screen's presets, in the order they are offered
+export const presetSystems: StarSystem[] = [builtIn(eden), builtIn(wander), builtIn(carnival)]
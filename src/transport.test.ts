@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { answerHello, parseMsg, PROTOCOL_VERSION, type Msg } from './protocol'
+import { defaultParams } from './sim'
+import { createTransport, type Connection, type Transport } from './transport'
+
+const open: Transport[] = []
+const hostInfo = { name: 'Host', preset: 'eden', params: defaultParams, o: 12 }
+
+afterEach(() => {
+  for (const t of open.splice(0)) t.destroy()
+})
+
+function loopback(channel: string, id?: string): Promise<Transport> {
+  const transport = createTransport({ kind: 'loopback', channel }, id)
+  open.push(transport)
+  return new Promise((resolve, reject) => {
+    transport.on('open', () => resolve(transport))
+    transport.on('error', err => reject(new Error(err.message)))
+  })
+}
+
+function nextMessage(conn: Connection): Promise<Msg | null> {
+  return new Promise(resolve => conn.on('data', data => resolve(parseMsg(data))))
+}
+
+describe('loopback transport', () => {
+  it('carries the hello handshake between a host and a client', async () => {
+    const channel = `test-${Math.random()}`
+    const host = await loopback(channel, 'host')
+    const client = await loopback(channel)
+
+    // The host answers hellos the way main.ts does
+    host.on('connection', conn => {
+      conn.on('data', data => {
+        const msg = parseMsg(data)
+        if (msg?.t === 'hello') conn.send(answerHello(msg, hostInfo, name => name === 'Host').reply)
+      })
+    })
+
+    const conn = client.connect('host')
+    await new Promise<void>(resolve => conn.on('open', resolve))
+    const reply = nextMessage(conn)
+    conn.send({ t: 'hello', v: PROTOCOL_VERSION, name: 'Pip' })
+    expect(await reply).toEqual({ t: 'hello', v: PROTOCOL_VERSION, name: 'Host', preset: 'eden', params: defaultParams, o: 12, you: 'Pip' })
+
+    const refusal = nextMessage(conn)
+    conn.send({ t: 'hello', v: PROTOCOL_VERSION - 1, name: 'Pip' })
+    expect(await refusal).toMatchObject({ t: 'reject', reason: expect.stringMatching(/version/) })
+  })
+
+  it('tells a client the name it was given when somebody already had its own', async () => {
+    const channel = `test-${Math.random()}`
+    const host = await loopback(channel, 'host')
+    const room = new Set(['Host'])
+    host.on('connection', conn => {
+      conn.on('data', data => {
+        const msg = parseMsg(data)
+        if (msg?.t !== 'hello') return
+        const answer = answerHello(msg, hostInfo, name => room.has(name))
+        if (answer.name) room.add(answer.name)
+        conn.send(answer.reply)
+      })
+    })
+
+    const hello = async () => {
+      const conn = (await loopback(channel)).connect('host')
+      await new Promise<void>(resolve => conn.on('open', resolve))
+      const reply = nextMessage(conn)
+      conn.send({ t: 'hello', v: PROTOCOL_VERSION, name: 'Pip' })
+      return reply
+    }
+    expect(await hello()).toMatchObject({ t: 'hello', you: 'Pip' })
+    expect(await hello()).toMatchObject({ t: 'hello', you: 'Pip 2' })
+    expect([...room]).toEqual(['Host', 'Pip', 'Pip 2'])
+  })
+
+  it('refuses an id that is already taken', async () => {
+    const channel = `test-${Math.random()}`
+    await loopback(channel, 'host')
+    await expect(loopback(channel, 'host')).rejects.toThrow(/taken/)
+  })
+
+  it('gives an id claimed by two endpoints at once to only one of them', async () => {
+    const channel = `test-${Math.random()}`
+    const claims = await Promise.allSettled([loopback(channel, 'host'), loopback(channel, 'host')])
+    expect(claims.map(c => c.status).sort()).toEqual(['fulfilled', 'rejected'])
+  })
+
+  it('gives up on a peer nobody answers for', async () => {
+    const client = await loopback(`test-${Math.random()}`)
+    const conn = client.connect('nobody')
+    const err = await new Promise(resolve => conn.on('error', resolve))
+    expect(err).toMatchObject({ type: 'peer-unavailable' })
+  }, 10000)
+})
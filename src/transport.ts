@@ -0,0 +1,382 @@
+import Peer, { type DataConnection, type PeerOptions } from 'peerjs'
+
+// ---------- Transport interfaces ----------
+// A small PeerJS-shaped surface so the game code doesn't care what carries its messages.
+// Errors the game reacts to are normalised to the PeerJS error type names.
+export type TransportErrorType = 'unavailable-id' | 'peer-unavailable' | 'network' | 'server-error' | 'other'
+export interface TransportError { type: TransportErrorType; message: string }
+
+export interface Connection {
+  readonly peer: string // id of the remote end
+  readonly open: boolean
+  send(data: unknown): void
+  close(): void
+  on(event: 'open' | 'close', cb: () => void): void
+  on(event: 'data', cb: (data: unknown) => void): void
+  on(event: 'error', cb: (err: unknown) => void): void
+}
+
+export interface Transport {
+  readonly id: string | null
+  readonly destroyed: boolean
+  readonly disconnected: boolean
+  on(event: 'open', cb: (id: string) => void): void
+  on(event: 'connection', cb: (conn: Connection) => void): void
+  on(event: 'disconnected', cb: () => void): void
+  on(event: 'error', cb: (err: TransportError) => void): void
+  connect(peerId: string): Connection
+  reconnect(): void
+  destroy(): void
+}
+
+export type TransportConfig =
+  | { kind: 'peerjs'; host?: string; port?: number; path?: string; secure?: boolean; key?: string }
+  | { kind: 'websocket'; url: string }
+  | { kind: 'loopback'; channel?: string }
+
+// Pick a transport from the page URL, e.g.
+//   ?transport=peerjs&peerHost=localhost&peerPort=9000&peerPath=/myapp
+//   ?transport=ws&relay=ws://localhost:8787
+//   ?transport=loopback            (tabs of the same browser, or one process)
+export function parseTransportConfig(search: string): TransportConfig {
+  const q = new URLSearchParams(search)
+  switch (q.get('transport')) {
+    case 'ws':
+    case 'websocket':
+      return { kind: 'websocket', url: q.get('relay') || 'ws://localhost:8787' }
+    case 'loopback':
+      return { kind: 'loopback', channel: q.get('channel') || undefined }
+    default: {
+      const port = q.get('peerPort')
+      const secure = q.get('peerSecure')
+      return {
+        kind: 'peerjs',
+        host: q.get('peerHost') || undefined,
+        port: port ? Number(port) : undefined,
+        path: q.get('peerPath') || undefined,
+        secure: secure === null ? undefined : secure !== 'false',
+        key: q.get('peerKey') || undefined,
+      }
+    }
+  }
+}
+
+export function createTransport(config: TransportConfig, id?: string): Transport {
+  switch (config.kind) {
+    case 'peerjs': return new PeerJsTransport(config, id)
+    case 'websocket': return new WebSocketTransport(config.url, id)
+    case 'loopback': return new LoopbackTransport(config.channel || 'solar-critters', id)
+  }
+}
+
+// ---------- Shared helpers ----------
+type Listener = (...args: unknown[]) => void
+
+// Event name -> the arguments its listeners get
+type EventMap = Record<string, unknown[]>
+type TransportEvents = { open: [id: string]; connection: [conn: Connection]; disconnected: []; error: [err: TransportError] }
+type ConnectionEvents = { open: []; close: []; data: [data: unknown]; error: [err: unknown] }
+
+class Emitter<Events extends EventMap> {
+  private listeners = new Map<keyof Events, ((...args: Events[keyof Events]) => void)[]>()
+  on<K extends keyof Events>(event: K, cb: (...args: Events[K]) => void) {
+    const list = this.listeners.get(event) || []
+    list.push(cb as (...args: Events[keyof Events]) => void)
+    this.listeners.set(event, list)
+  }
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]) {
+    for (const cb of this.listeners.get(event) || []) cb(...args)
+  }
+}
+
+const randomId = (prefix: string) => `${prefix}-${Math.random().toString(36).slice(2, 10)}`
+
+// ---------- PeerJS (public cloud or self-hosted PeerServer) ----------
+class PeerJsConnection implements Connection {
+  private conn: DataConnection
+  constructor(conn: DataConnection) {
+    this.conn = conn
+  }
+  get peer() { return this.conn.peer }
+  get open() { return this.conn.open }
+  send(data: unknown) { this.conn.send(data) }
+  close() { this.conn.close() }
+  on(event: string, cb: Listener) { this.conn.on(event as 'data', cb) }
+}
+
+class PeerJsTransport extends Emitter<TransportEvents> implements Transport {
+  private peer: Peer
+  constructor(config: Extract<TransportConfig, { kind: 'peerjs' }>, id?: string) {
+    super()
+    // Only pass what was configured so PeerJS keeps its cloud-server defaults otherwise
+    const options: PeerOptions = { debug: 1 }
+    if (config.host) options.host = config.host
+    if (config.port) options.port = config.port
+    if (config.path) options.path = config.path
+    if (config.secure !== undefined) options.secure = config.secure
+    if (config.key) options.key = config.key
+    this.peer = id ? new Peer(id, options) : new Peer(options)
+    this.peer.on('open', peerId => this.emit('open', peerId))
+    this.peer.on('connection', conn => this.emit('connection', new PeerJsConnection(conn)))
+    this.peer.on('disconnected', () => this.emit('disconnected'))
+    this.peer.on('error', err => {
+      const known: TransportErrorType[] = ['unavailable-id', 'peer-unavailable', 'network', 'server-error']
+      const type = known.includes(err.type as TransportErrorType) ? err.type as TransportErrorType : 'other'
+      this.emit('error', { type, message: err.message })
+    })
+  }
+  get id() { return this.peer.id || null }
+  get destroyed() { return this.peer.destroyed }
+  get disconnected() { return this.peer.disconnected }
+  connect(peerId: string): Connection { return new PeerJsConnection(this.peer.connect(peerId, { reliable: true })) }
+  reconnect() { this.peer.reconnect() }
+  destroy() { this.peer.destroy() }
+}
+
+// ---------- Frame-based transports (WebSocket relay, loopback) ----------
+// Both speak the same small frame protocol. The WebSocket relay routes frames by `to`;
+// the loopback channel broadcasts them and every endpoint keeps only its own.
+type Frame =
+  | { type: 'register'; id: string; nonce?: number } // nonce: loopback only, settles two claims at once
+  | { type: 'registered'; id: string }
+  | { type: 'taken'; id: string; nonce?: number } // nonce: the claim being turned down, if it had one
+  | { type: 'connect'; from: string; to: string; cid: string }
+  | { type: 'accept'; from: string; to: string; cid: string }
+  | { type: 'data'; from: string; to: string; cid: string; data: unknown }
+  | { type: 'close'; from: string; to: string; cid: string }
+  | { type: 'unavailable'; to: string; cid: string } // relay: nobody is registered under that id
+  | { type: 'gone'; from: string } // an endpoint left; drop every connection to it
+
+const connectTimeoutMs = 4000
+
+class FrameConnection extends Emitter<ConnectionEvents> implements Connection {
+  readonly peer: string
+  readonly cid: string
+  open = false
+  private closed = false
+  private owner: FrameTransport
+  private timeout: ReturnType<typeof setTimeout> | null = null
+  constructor(owner: FrameTransport, peer: string, cid: string) {
+    super()
+    this.owner = owner
+    this.peer = peer
+    this.cid = cid
+  }
+  send(data: unknown) {
+    if (!this.open || !this.owner.id) return
+    this.owner.post({ type: 'data', from: this.owner.id, to: this.peer, cid: this.cid, data })
+  }
+  close() {
+    if (this.closed) return
+    if (this.owner.id) this.owner.post({ type: 'close', from: this.owner.id, to: this.peer, cid: this.cid })
+    this.finish()
+  }
+  // Called by the owning transport
+  giveUpAfter(ms: number) {
+    this.timeout = setTimeout(() => {
+      this.timeout = null
+      if (!this.open) this.fail({ type: 'peer-unavailable', message: `Could not connect to peer ${this.peer}` })
+    }, ms)
+  }
+  markOpen() {
+    if (this.closed || this.open) return
+    this.stopWaiting()
+    this.open = true
+    this.emit('open')
+  }
+  deliver(data: unknown) {
+    if (this.open) this.emit('data', data)
+  }
+  fail(err: TransportError) {
+    if (this.closed) return
+    this.emit('error', err)
+    this.finish()
+  }
+  finish() {
+    if (this.closed) return
+    this.stopWaiting()
+    this.closed = true
+    this.open = false
+    this.owner.forget(this)
+    this.emit('close')
+  }
+  private stopWaiting() {
+    if (this.timeout !== null) clearTimeout(this.timeout)
+    this.timeout = null
+  }
+}
+
+abstract class FrameTransport extends Emitter<TransportEvents> implements Transport {
+  id: string | null = null
+  destroyed = false
+  disconnected = true
+  private conns = new Map<string, FrameConnection>()
+
+  abstract post(frame: Frame): void
+  abstract reconnect(): void
+  protected abstract shutdown(): void
+
+  connect(peerId: string): Connection {
+    const conn = new FrameConnection(this, peerId, randomId('c'))
+    this.conns.set(conn.cid, conn)
+    if (this.id) this.post({ type: 'connect', from: this.id, to: peerId, cid: conn.cid })
+    conn.giveUpAfter(connectTimeoutMs)
+    return conn
+  }
+
+  destroy() {
+    if (this.destroyed) return
+    for (const conn of [...this.conns.values()]) conn.close()
+    if (this.id) this.post({ type: 'gone', from: this.id })
+    this.destroyed = true
+    this.disconnected = true
+    this.shutdown()
+  }
+
+  forget(conn: FrameConnection) {
+    this.conns.delete(conn.cid)
+  }
+
+  protected opened(id: string) {
+    this.id = id
+    this.disconnected = false
+    this.emit('open', id)
+  }
+
+  protected lostLink() {
+    if (this.disconnected) return
+    this.disconnected = true
+    this.emit('disconnected')
+  }
+
+  protected handleFrame(frame: Frame) {
+    if (this.destroyed || !this.id) return
+    switch (frame.type) {
+      case 'connect': {
+        if (frame.to !== this.id) return
+        const conn = new FrameConnection(this, frame.from, frame.cid)
+        this.conns.set(conn.cid, conn)
+        this.post({ type: 'accept', from: this.id, to: frame.from, cid: frame.cid })
+        this.emit('connection', conn)
+        // Like PeerJS, 'open' fires after the listener had a chance to subscribe
+        queueMicrotask(() => conn.markOpen())
+        break
+      }
+      case 'accept':
+        if (frame.to === this.id) this.conns.get(frame.cid)?.markOpen()
+        break
+      case 'data':
+        if (frame.to === this.id) this.conns.get(frame.cid)?.deliver(frame.data)
+        break
+      case 'close':
+        if (frame.to === this.id) this.conns.get(frame.cid)?.finish()
+        break
+      case 'unavailable':
+        this.conns.get(frame.cid)?.fail({ type: 'peer-unavailable', message: `Could not connect to peer ${frame.to}` })
+        break
+      case 'gone':
+        for (const conn of [...this.conns.values()]) if (conn.peer === frame.from) conn.finish()
+        break
+    }
+  }
+}
+
+// Plain WebSocket relay; see scripts/relay-server.mjs for the server side
+class WebSocketTransport extends FrameTransport {
+  private url: string
+  private wantedId: string
+  private socket: WebSocket | null = null
+  constructor(url: string, id?: string) {
+    super()
+    this.url = url
+    this.wantedId = id || randomId('ws')
+    this.openSocket()
+  }
+  post(frame: Frame) {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(frame))
+  }
+  reconnect() {
+    if (this.destroyed || !this.disconnected) return
+    this.openSocket()
+  }
+  protected shutdown() {
+    this.socket?.close()
+    this.socket = null
+  }
+  private openSocket() {
+    const socket = new WebSocket(this.url)
+    this.socket = socket
+    socket.onopen = () => socket.send(JSON.stringify({ type: 'register', id: this.wantedId } satisfies Frame))
+    socket.onmessage = (e: MessageEvent) => {
+      let frame: Frame
+      try { frame = JSON.parse(String(e.data)) } catch { return }
+      if (frame.type === 'registered') this.opened(frame.id)
+      else if (frame.type === 'taken') {
+        // Nothing more will come over this socket; hang up so it doesn't linger
+        this.socket = null
+        socket.close()
+        this.emit('error', { type: 'unavailable-id', message: `ID "${frame.id}" is taken` })
+      } else this.handleFrame(frame)
+    }
+    socket.onerror = () => this.emit('error', { type: 'network', message: `WebSocket relay ${this.url} unreachable` })
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.lostLink()
+    }
+  }
+}
+
+// In-process / same-browser transport over BroadcastChannel. Works across tabs and in Node,
+// so the whole sync protocol can run without any network.
+const claimWindowMs = 150
+
+class LoopbackTransport extends FrameTransport {
+  private channel: BroadcastChannel
+  private claiming: string | null
+  private nonce = Math.random()
+  constructor(channelName: string, id?: string) {
+    super()
+    this.channel = new BroadcastChannel(channelName)
+    this.channel.onmessage = (e: MessageEvent) => this.receive(e.data as Frame)
+    // Claim the id: whoever already owns it answers 'taken' within the claim window, and of two
+    // endpoints claiming it at once the one with the lower nonce keeps it
+    this.claiming = id || randomId('loop')
+    const claim = this.claiming
+    this.channel.postMessage({ type: 'register', id: claim, nonce: this.nonce } satisfies Frame)
+    setTimeout(() => {
+      if (this.destroyed || this.claiming !== claim) return
+      this.claiming = null
+      this.opened(claim)
+    }, claimWindowMs)
+  }
+  post(frame: Frame) {
+    if (!this.destroyed) this.channel.postMessage(frame)
+  }
+  reconnect() {}
+  protected shutdown() {
+    this.channel.close()
+  }
+  private receive(frame: Frame) {
+    if (frame.type === 'register') {
+      if (frame.id === this.id) this.post({ type: 'taken', id: frame.id, nonce: frame.nonce })
+      else if (frame.id === this.claiming && frame.nonce !== undefined) {
+        // Both claims are out: either side may have missed the other's, so each settles it alone
+        if (frame.nonce > this.nonce) this.post({ type: 'taken', id: frame.id, nonce: frame.nonce })
+        else this.refuseClaim()
+      }
+      return
+    }
+    if (frame.type === 'taken') {
+      if (frame.id === this.claiming && (frame.nonce === undefined || frame.nonce === this.nonce)) this.refuseClaim()
+      return
+    }
+    // No relay in between, so a connect to an id nobody owns just times out in connect()
+    this.handleFrame(frame)
+  }
+  private refuseClaim() {
+    const id = this.claiming
+    this.claiming = null
+    this.emit('error', { type: 'unavailable-id', message: `ID "${id}" is taken` })
+  }
+}